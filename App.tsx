@@ -1,29 +1,63 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { INITIAL_DATA, ReceiptData, PRODUCTS_LIST, PRODUCT_CATALOG, Product } from './types';
-import { generateReceiptPDF, getReceiptBlob } from './services/pdfService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { INITIAL_DATA, ReceiptData, CatalogItem, Product, ArchivedSale, PromotionRule, Payment, DeliveryStatus, ReceiptDocumentType, ReturnRecord, WarrantyUnit } from './types';
+import { getReceiptBlob, generateDeliveryOrderPDF, generateRouteSheetPDF, getRouteSheetBlob, getRouteSheetFileName, generateReturnPDF, generateWarrantyCertificatePDF, generateFormattedReceiptPDF, printReceipt, RECEIPT_FORMATS, ReceiptFormat } from './services/pdfService';
+import { loadStoreProfile, saveStoreProfile, getStoreIdentity, formatBranchAddress, withVerificationKey } from './services/storeService';
+import { getWarrantyProducts, loadCategoryWarranties, saveCategoryWarranties, getDefaultWarranty, withDefaultWarranty, differsFromDefaultWarranty, formatWarrantyTerm } from './services/warrantyService';
+import { loadReturns, saveReturns } from './services/returnService';
+import { parsePolicyText, DEFAULT_OBSERVATION_TEMPLATES, POLICY_TITLE } from './services/policyService';
+import { formatSignedAt, isUnsigned, SIGNATURE_LABELS, UNSIGNED_LABEL } from './services/signatureService';
+import { getReceiptPix } from './services/pixService';
+import { loadSaleCounters, saveSaleCounters, getNextSaleCode, findSaleCodeCollision, getBranchSaleCodePattern } from './services/saleCodeService';
 import { generateClientMessage, parseReceiptFromText } from './services/geminiService';
+import { loadArchive, saveArchive, isQuotaExceeded, upsertArchivedSale, recordArchivedPayment, updateArchivedDeliveryStatus } from './services/archiveService';
+import { loadCatalog, saveCatalog, isCatalogItemActive, getProductAttributes, findCatalogItemByCode } from './services/catalogService';
+import { loadPromotions, savePromotions, evaluatePromotions } from './services/promotionService';
+import { calculateTotals } from './services/pricingService';
+import { todayISODate } from './services/dateService';
+import { maskDocument, validateDocument, getDocumentLabel } from './services/documentService';
+import { maskCep, isCompleteCep, defaultCepResolver } from './services/cepService';
+import { summarizePayments, checkPayments, getPaymentLabel, getChangeDue, getPaymentStatus } from './services/paymentService';
+import { formatDeliveryDate, getMapsUrl, DeliveryRoute as Route } from './services/deliveryService';
+import { isQuote, isQuoteExpired, getDocumentTitle, getDocumentFilePrefix, getDefaultValidUntil, convertQuoteToSale, markQuoteConverted } from './services/quoteService';
+import { maskPhone, normalizePhone, validatePhone, toWhatsAppNumber, getWhatsAppUrl } from './services/phoneService';
 import { Input, Select, TextArea } from './components/Input';
+import { SalesArchive } from './components/SalesArchive';
+import { ReturnExchange } from './components/ReturnExchange';
+import { WarrantyLookup } from './components/WarrantyLookup';
+import { StoreSettings } from './components/StoreSettings';
+import { PolicySettings } from './components/PolicySettings';
+import { ObservationEditor } from './components/ObservationEditor';
+import { SignaturesEditor } from './components/SignaturePad';
+import { CatalogManager } from './components/CatalogManager';
+import { ProductPicker } from './components/ProductPicker';
+import { PromotionsManager } from './components/PromotionsManager';
+import { CameraScanner, useKeyboardWedgeScanner } from './components/BarcodeScanner';
+import { PaymentsEditor } from './components/PaymentsEditor';
+import { DeliveryEditor } from './components/DeliveryEditor';
+import { DeliveryRoute } from './components/DeliveryRoute';
+import { ReceiptVerifier } from './components/ReceiptVerifier';
 import { 
   Calendar, User, MapPin, Hash, Map, Building2, 
   Phone, Download, Printer, CreditCard, Plus, Trash2, Tag, Percent, Search,
   ShieldCheck, Mail, MessageCircle, FileText, Sparkles, Loader2, Barcode,
-  Users, UserPlus, ExternalLink, Share2, Copy, RotateCcw, AlertTriangle
+  Users, UserPlus, ExternalLink, Share2, Copy, RotateCcw, AlertTriangle, Archive, BookOpen, ScanLine, Truck, Settings, BadgeCheck
 } from 'lucide-react';
 import Fuse from 'fuse.js';
 import JsBarcode from 'jsbarcode';
 
 const STORAGE_KEY = 'belconfort_receipt_data';
 const TEAM_STORAGE_KEY = 'belconfort_team_list';
+const RECEIPT_FORMAT_STORAGE_KEY = 'belconfort_receipt_format';
 
-// Initialize Fuse instance outside component for performance
-const fuse = new Fuse(PRODUCTS_LIST, {
+// Fuse options for the product search (the index is rebuilt whenever the managed catalog changes)
+const FUSE_OPTIONS = {
   includeScore: true,
   threshold: 0.4, // 0.0 is exact match, 1.0 is match anything. 0.4 is good for typos.
   ignoreLocation: true, // Allows "Box Casal" to match "Base Box Bilú Casal"
-});
+};
 
 // Barcode Component for Preview
-const BarcodePreview = ({ code }: { code: string }) => {
+const BarcodePreview = ({ code, className = "h-2.5" }: { code: string, className?: string }) => {
   const imgRef = useRef<HTMLImageElement>(null);
   
   useEffect(() => {
@@ -45,7 +79,7 @@ const BarcodePreview = ({ code }: { code: string }) => {
   }, [code]);
 
   if (!code) return null;
-  return <img ref={imgRef} alt="barcode" className="h-2.5 w-auto max-w-full object-contain opacity-80 mix-blend-multiply mt-0.5" />;
+  return <img ref={imgRef} alt="barcode" className={`${className} w-auto max-w-full object-contain opacity-80 mix-blend-multiply mt-0.5`} />;
 }
 
 export default function App() {
@@ -62,6 +96,7 @@ export default function App() {
     }
     return INITIAL_DATA;
   });
+  const draftQuotaWarnedRef = useRef(false);
 
   // Salespeople Team State
   const [salespeople, setSalespeople] = useState<string[]>(() => {
@@ -74,10 +109,42 @@ export default function App() {
     return ['ROBSON', 'SARA']; // Defaults
   });
 
+  // Paper used by the download/print actions (the counter printer is usually thermal)
+  const [receiptFormat, setReceiptFormat] = useState<ReceiptFormat>(() =>
+    (localStorage.getItem(RECEIPT_FORMAT_STORAGE_KEY) as ReceiptFormat) || 'A4'
+  );
+
   const [newSalespersonName, setNewSalespersonName] = useState("");
 
+  // Managed Catalog State (replaces the bundled PRODUCT_CATALOG)
+  const [catalog, setCatalog] = useState<CatalogItem[]>(loadCatalog);
+
+  const activeCatalog = useMemo(() => catalog.filter(isCatalogItemActive), [catalog]);
+  const productsList = useMemo(() => activeCatalog.map(p => p.name), [activeCatalog]);
+  const fuse = useMemo(() => new Fuse(productsList, FUSE_OPTIONS), [productsList]);
+
+  // Store profile (brand and branches printed on every document)
+  const [storeProfile, setStoreProfile] = useState(() => withVerificationKey(loadStoreProfile()));
+
+  // Last sale number handed out per code series
+  const [saleCounters, setSaleCounters] = useState(loadSaleCounters);
+
+  // Default factory warranty per category (catalog items may carry their own)
+  const [categoryWarranties, setCategoryWarranties] = useState(loadCategoryWarranties);
+  const getDefaultWarrantyFor = (name: string) => getDefaultWarranty(catalog, categoryWarranties, name);
+
+  // Promotion Rules State
+  const [promotions, setPromotions] = useState<PromotionRule[]>(loadPromotions);
+
+  // Sales Archive State (every issued receipt)
+  const [archive, setArchive] = useState<ArchivedSale[]>(loadArchive);
+
+  // Returns / exchanges made against archived sales
+  const [returns, setReturns] = useState<ReturnRecord[]>(loadReturns);
+  const [returningSale, setReturningSale] = useState<ArchivedSale | null>(null);
+
   // UI State
-  const [activeTab, setActiveTab] = useState<'manual' | 'import' | 'team'>('manual');
+  const [activeTab, setActiveTab] = useState<'manual' | 'import' | 'team' | 'archive' | 'routes' | 'warranty' | 'verify' | 'catalog' | 'settings'>('manual');
   const [importText, setImportText] = useState("");
   const [isImporting, setIsImporting] = useState(false);
   const [importError, setImportError] = useState<{title: string, msg: string} | null>(null);
@@ -88,13 +155,26 @@ export default function App() {
   const [selectedQuantity, setSelectedQuantity] = useState("1");
 
   // Search state
+  const [pickerMode, setPickerMode] = useState<'search' | 'model'>('search');
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [isSearchOpen, setIsSearchOpen] = useState(false);
 
+  // Barcode scanning state
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [scanMessage, setScanMessage] = useState<{ type: 'error' | 'success', text: string } | null>(null);
+
   // State for discount input as string
   const [discountInput, setDiscountInput] = useState("");
 
+  // CEP lookup state
+  const [isResolvingCep, setIsResolvingCep] = useState(false);
+  const [cepStatus, setCepStatus] = useState<string | null>(null);
+  const [cepHint, setCepHint] = useState<string | null>(null);
+
+  // Contact chooser for the WhatsApp fallback when the customer has two numbers
+  const [isWhatsAppPickerOpen, setIsWhatsAppPickerOpen] = useState(false);
+
   // Debounce effect for search term
   useEffect(() => {
     if (!searchTerm) {
@@ -109,9 +189,20 @@ export default function App() {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
-  // Save to localStorage whenever data changes
+  // Save to localStorage whenever data changes. The draft is saved on every keystroke, so a
+  // full quota is reported once until a save goes through again.
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      draftQuotaWarnedRef.current = false;
+    } catch (error) {
+      if (!isQuotaExceeded(error)) throw error;
+      console.error("Receipt draft exceeds the storage quota", error);
+      if (!draftQuotaWarnedRef.current) {
+        draftQuotaWarnedRef.current = true;
+        alert("O armazenamento do navegador está cheio e o rascunho do recibo não está sendo salvo.\n\nLibere espaço no navegador para não perder o que foi digitado ao fechar esta página.");
+      }
+    }
   }, [data]);
 
   // Save team to localStorage
@@ -119,11 +210,105 @@ export default function App() {
     localStorage.setItem(TEAM_STORAGE_KEY, JSON.stringify(salespeople));
   }, [salespeople]);
 
+  // Save catalog to localStorage
+  useEffect(() => {
+    saveCatalog(catalog);
+  }, [catalog]);
+
+  // Save store profile to localStorage
+  useEffect(() => {
+    saveStoreProfile(storeProfile);
+  }, [storeProfile]);
+
+  // Save sale code counters to localStorage
+  useEffect(() => {
+    saveSaleCounters(saleCounters);
+  }, [saleCounters]);
+
+  // Save the receipt paper format
+  useEffect(() => {
+    localStorage.setItem(RECEIPT_FORMAT_STORAGE_KEY, receiptFormat);
+  }, [receiptFormat]);
+
+  // Save category warranties to localStorage
+  useEffect(() => {
+    saveCategoryWarranties(categoryWarranties);
+  }, [categoryWarranties]);
+
+  // Save promotions to localStorage
+  useEffect(() => {
+    savePromotions(promotions);
+  }, [promotions]);
+
+  // Save archive to localStorage
+  useEffect(() => {
+    if (!saveArchive(archive)) {
+      alert("O armazenamento do navegador está cheio e o arquivo de vendas não foi salvo.\n\nAs últimas vendas só ficam disponíveis até fechar esta página. Libere espaço no navegador antes de continuar.");
+    }
+  }, [archive]);
+
+  // Save returns to localStorage
+  useEffect(() => {
+    saveReturns(returns);
+  }, [returns]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleDocumentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setData(prev => ({ ...prev, cpf: maskDocument(e.target.value) }));
+  };
+
+  const documentValidation = validateDocument(data.cpf || '');
+
+  const handlePhoneChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setData(prev => ({ ...prev, [name]: maskPhone(value) }));
+  };
+
+  // Local numbers typed without area code get the store's default on blur
+  const handlePhoneBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setData(prev => ({ ...prev, [name]: normalizePhone(value) }));
+  };
+
+  const contact1Validation = validatePhone(data.contact1);
+  const contact2Validation = validatePhone(data.contact2);
+
+  const whatsAppContacts = [
+    { label: 'Contato 1', phone: data.contact1, number: toWhatsAppNumber(data.contact1) },
+    { label: 'Contato 2', phone: data.contact2, number: toWhatsAppNumber(data.contact2) },
+  ].filter((contact, i, all) => contact.number && all.findIndex(c => c.number === contact.number) === i);
+
+  const handleCepChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const cep = maskCep(e.target.value);
+    setData(prev => ({ ...prev, cep }));
+    setCepStatus(null);
+    setCepHint(null);
+    if (!isCompleteCep(cep)) return;
+
+    setIsResolvingCep(true);
+    try {
+      const address = await defaultCepResolver.resolve(cep);
+      if (!address) {
+        setCepStatus('CEP não encontrado');
+        return;
+      }
+      // Only fill what the resolver knows; the offline table may return just the city
+      if (!address.street) setCepHint('Endereço parcial (sem internet ou CEP geral): confira rua e bairro');
+      setData(prev => prev.cep !== cep ? prev : {
+        ...prev,
+        street: address.street ? address.street.toUpperCase() : prev.street,
+        neighborhood: address.neighborhood ? address.neighborhood.toUpperCase() : prev.neighborhood,
+        city: address.city ? address.city.toUpperCase() : prev.city,
+      });
+    } finally {
+      setIsResolvingCep(false);
+    }
+  };
+
   const handleResetData = () => {
     if (window.confirm("Tem certeza que deseja iniciar um novo atendimento? Todos os dados atuais serão apagados.")) {
         setData(INITIAL_DATA);
@@ -156,7 +341,7 @@ export default function App() {
   // Filter products using Fuse.js fuzzy search based on debounced term
   const filteredProducts = debouncedSearchTerm
     ? fuse.search(debouncedSearchTerm).map(result => result.item)
-    : PRODUCTS_LIST;
+    : productsList;
 
   const handleSearchSelect = (name: string) => {
     setSelectedProduct(name);
@@ -165,7 +350,7 @@ export default function App() {
     setIsSearchOpen(false);
     
     // Auto-fill price
-    const product = PRODUCT_CATALOG.find(p => p.name === name);
+    const product = activeCatalog.find(p => p.name === name);
     if (product) {
         setSelectedPrice(product.price.toFixed(2).replace('.', ','));
     } else {
@@ -180,17 +365,15 @@ export default function App() {
     const priceValue = parseFloat(selectedPrice.replace('.', '').replace(',', '.') || "0");
     const quantityValue = parseInt(selectedQuantity) || 1;
     
-    // Generate a pseudo-code (Numeric only - 6 digits)
-    const pseudoCode = Math.floor(100000 + Math.random() * 900000).toString();
+    // Permanent catalog SKU, so the printed barcode always identifies the same product
+    const catalogItem = activeCatalog.find(p => p.name === selectedProduct);
 
-    const newProduct: Product = {
-      code: pseudoCode,
+    const newProduct: Product = withDefaultWarranty({
+      code: catalogItem?.sku,
       name: selectedProduct,
       price: priceValue,
       quantity: quantityValue,
-      warrantyTime: "", // Default empty, user edits in list
-      warrantyUnit: "MESES" // Default unit
-    };
+    }, getDefaultWarrantyFor(selectedProduct));
 
     setData(prev => ({
       ...prev,
@@ -205,13 +388,62 @@ export default function App() {
     setSelectedQuantity("1");
   };
 
+  // Adds a scanned SKU/EAN to the cart, or increases its quantity when it is already there
+  const handleScanCode = (code: string) => {
+    const item = findCatalogItemByCode(activeCatalog, code);
+    if (!item) {
+      setScanMessage({ type: 'error', text: `Código ${code} não encontrado no catálogo.` });
+      return;
+    }
+
+    setData(prev => {
+      const existingIndex = prev.products.findIndex(p => (p.code && p.code === item.sku) || p.name === item.name);
+      if (existingIndex >= 0) {
+        return {
+          ...prev,
+          products: prev.products.map((p, i) => (i === existingIndex ? { ...p, quantity: p.quantity + 1 } : p))
+        };
+      }
+      return {
+        ...prev,
+        products: [...prev.products, withDefaultWarranty({
+          code: item.sku,
+          name: item.name,
+          price: item.price,
+          quantity: 1,
+        }, getDefaultWarrantyFor(item.name))]
+      };
+    });
+    setScanMessage({ type: 'success', text: `+1 ${item.name}` });
+    setActiveTab('manual');
+  };
+
+  // The warranty lookup reads codes itself
+  useKeyboardWedgeScanner(handleScanCode, activeTab !== 'warranty' && activeTab !== 'verify');
+
+  // Clear scan feedback after a few seconds
+  useEffect(() => {
+    if (!scanMessage) return;
+    const timer = setTimeout(() => setScanMessage(null), 3000);
+    return () => clearTimeout(timer);
+  }, [scanMessage]);
+
   const handleRemoveProduct = (index: number) => {
+    if (data.pricesLocked && !window.confirm("Os preços estão travados conforme o orçamento. Remover este item recalcula as promoções da venda. Continuar?")) return;
     setData(prev => ({
       ...prev,
+      pricesLocked: false, // Locked promotions point at line positions that no longer exist
       products: prev.products.filter((_, i) => i !== index)
     }));
   };
 
+  const handleResetProductWarranty = (index: number) => {
+    setData(prev => ({
+      ...prev,
+      products: prev.products.map((p, i) => i === index ? withDefaultWarranty(p, getDefaultWarrantyFor(p.name)) : p)
+    }));
+  };
+
   const handleUpdateProductWarranty = (index: number, field: 'time' | 'unit', value: string) => {
     setData(prev => {
         const newProducts = prev.products.map((p, i) => {
@@ -219,7 +451,7 @@ export default function App() {
                 if (field === 'time') {
                     return { ...p, warrantyTime: value };
                 } else {
-                    return { ...p, warrantyUnit: value as 'DIAS' | 'MESES' | 'ANOS' };
+                    return { ...p, warrantyUnit: value as WarrantyUnit };
                 }
             }
             return p;
@@ -246,7 +478,7 @@ export default function App() {
     setImportError(null);
     try {
       // Pass the system product list so AI can match exact names
-      const result = await parseReceiptFromText(importText, PRODUCTS_LIST);
+      const result = await parseReceiptFromText(importText, productsList);
       
       // LOGIC UPDATE: Check existing products in the cart to update quantity instead of duplicating
       // Create a working copy of current products
@@ -255,7 +487,7 @@ export default function App() {
       if (result.items && Array.isArray(result.items)) {
         result.items.forEach((item: { name: string, quantity: number }) => {
             // item comes from AI as { name: "EXACT NAME", quantity: 2 }
-            const systemProduct = PRODUCT_CATALOG.find(p => p.name === item.name);
+            const systemProduct = activeCatalog.find(p => p.name === item.name);
             
             if (systemProduct) {
                 const quantityToAdd = item.quantity || 1;
@@ -271,26 +503,32 @@ export default function App() {
                         quantity: existingProduct.quantity + quantityToAdd
                     };
                 } else {
-                    // Add new product
-                    // Generate Numeric Code (6 digits)
-                    const pseudoCode = Math.floor(100000 + Math.random() * 900000).toString();
-                    
-                    updatedProducts.push({
-                        code: pseudoCode,
+                    // Add new product with its catalog SKU
+                    updatedProducts.push(withDefaultWarranty({
+                        code: systemProduct.sku,
                         name: systemProduct.name,
                         price: systemProduct.price,
                         quantity: quantityToAdd,
-                        warrantyTime: "", // Default manual
-                        warrantyUnit: "MESES"
-                    });
+                    }, getDefaultWarrantyFor(systemProduct.name)));
                 }
             }
         });
       }
 
+      const clientData = { ...result.clientData };
+      if (clientData.cpf) {
+        // Keep only the digits the AI found, in the standard mask (validity is flagged on the field)
+        clientData.cpf = maskDocument(clientData.cpf);
+      }
+      if (clientData.contact1) clientData.contact1 = normalizePhone(clientData.contact1);
+      if (clientData.contact2) clientData.contact2 = normalizePhone(clientData.contact2);
+      if (clientData.cep) {
+        clientData.cep = maskCep(clientData.cep);
+      }
+
       setData(prev => ({
         ...prev,
-        ...result.clientData, // Merge client data
+        ...clientData, // Merge client data
         products: updatedProducts, // Use the updated list with merged quantities
       }));
 
@@ -344,12 +582,7 @@ export default function App() {
   };
 
   // --- MAPS LOGIC ---
-  const getAddressUrl = () => {
-    const { street, number, neighborhood, city } = data;
-    if (!street && !city) return '';
-    const query = encodeURIComponent(`${street}, ${number} - ${neighborhood}, ${city}`);
-    return `https://www.google.com/maps/search/?api=1&query=${query}`;
-  };
+  const getAddressUrl = () => getMapsUrl(data);
 
   const handleOpenMap = () => {
     const url = getAddressUrl();
@@ -363,7 +596,7 @@ export default function App() {
     if (navigator.share) {
         try {
             await navigator.share({
-                title: 'Localização do Cliente - BelConfort',
+                title: `Localização do Cliente - ${store.name}`,
                 text: `Endereço do cliente: ${data.street}, ${data.number} - ${data.neighborhood}`,
                 url: url
             });
@@ -380,145 +613,272 @@ export default function App() {
     }
   };
 
-  // --- BUNDLE LOGIC & LABELING ---
-  const getBundleDetails = (products: Product[]) => {
-    let totalDiscount = 0;
-    let hasBaseDiscount = false;
-    let hasPillowDiscount = false;
+  // --- PROMOTIONS ---
+  const saleDate = data.date || todayISODate();
+  // A sale converted from a quote keeps the promotions as quoted, even if a rule has since expired
+  const appliedPromotions = data.pricesLocked && data.appliedPromotions
+    ? data.appliedPromotions
+    : evaluatePromotions(data.products, promotions, name => getProductAttributes(catalog, name), saleDate);
 
-    const specificPillowName = "TRAVESSEIRO FLOCOS CONFORTO 20CM 60X40 BRANCO";
+  // --- TOTAL CALCULATIONS ---
+  // Receipt with the promotions applied; the PDF, the AI message and the archive all read this copy
+  const pricedData: ReceiptData = {
+    ...data,
+    appliedPromotions: appliedPromotions,
+    bundleDiscount: appliedPromotions.reduce((acc, promo) => acc + promo.amount, 0),
+    bundleLabel: appliedPromotions.map(promo => promo.label).join(' + '), // Summary kept for older readers
+    paymentMethod: data.payments && data.payments.length > 0 ? summarizePayments(data.payments) : data.paymentMethod,
+    branchId: data.branchId || storeProfile.defaultBranchId, // Recorded on issue
+  };
+  const store = getStoreIdentity(pricedData.branchId, storeProfile);
+  const { subtotal, manualDiscount, deliveryFee, total: totalValue } = calculateTotals(pricedData);
+  const paymentStatus = getPaymentStatus(data.payments, totalValue);
+  const pix = getReceiptPix(pricedData, store);
+
+  const getDataForExport = () => pricedData;
+
+  // Numbering of the branch issuing the sale
+  const saleCodePattern = getBranchSaleCodePattern(store.branch);
+  const saleCodeCollision = findSaleCodeCollision(archive, data.saleCode, data.archiveId);
+
+  // Stores the receipt in the sales archive and returns the archived copy used for export.
+  // Sales issued without a code get the next one of the store's sequence.
+  const issueReceipt = () => {
+    let receipt = getDataForExport();
+    if (!isQuote(receipt) && !receipt.saleCode.trim()) {
+      const next = getNextSaleCode(store.branch.id, saleCodePattern, saleCounters, archive);
+      setSaleCounters(next.counters);
+      receipt = { ...receipt, saleCode: next.code };
+    }
+    const { sales, sale } = upsertArchivedSale(archive, receipt);
+    setArchive(sales);
+    setData(prev => ({ ...prev, archiveId: sale.id, issuedAt: sale.issuedAt, saleCode: sale.receipt.saleCode }));
+    return sale.receipt;
+  };
 
-    // 1. Check if there is ANY product other than the specific pillow
-    const hasAnyOtherProduct = products.some(p => p.name !== specificPillowName);
+  // A typed code already used by another archived sale is refused
+  const checkSaleCodeAvailable = () => {
+    if (!saleCodeCollision) return true;
+    alert(`O código ${data.saleCode.toUpperCase()} já pertence à venda de ${saleCodeCollision.receipt.name || 'outro cliente'}.\n\nApague o código para receber o próximo da sequência ou digite outro.`);
+    return false;
+  };
 
-    // 2. Identify Inventory of Mattresses (Colchão) for Base Bundle Logic
-    let casalMattressCount = 0;
-    let queenMattressCount = 0;
-    let superKingMattressCount = 0;
+  // Warns before issuing a receipt with an invalid CPF/CNPJ. Returns false when the user cancels.
+  const confirmValidDocument = () => {
+    if (documentValidation.valid) return true;
+    return window.confirm(`${documentValidation.error}: ${data.cpf}\n\nDeseja emitir o comprovante mesmo assim?`);
+  };
 
-    products.forEach(p => {
-        const name = p.name.toUpperCase();
-        if (name.includes("COLCHÃO") || name.includes("COLCHAO")) {
-            if (name.includes("CASAL")) casalMattressCount += p.quantity;
-            else if (name.includes("QUEEN")) queenMattressCount += p.quantity;
-            else if (name.includes("SUPER KING")) superKingMattressCount += p.quantity;
-        }
-    });
+  // Warns before issuing a receipt whose payments exceed the total (a shortfall is a balance due)
+  const confirmPayments = () => {
+    const payments = data.payments || [];
+    if (payments.length === 0) return true;
+    const check = checkPayments(payments, totalValue);
+    if (!check.error) return true;
+    return window.confirm(`${check.error}.\n\nDeseja emitir o comprovante mesmo assim?`);
+  };
 
-    // 3. Iterate products to apply specific rules
-    products.forEach(p => {
-        const name = p.name.toUpperCase();
-        
-        // RULE: Pillow "FLOCOS CONFORTO" is discounted (free) if there is ANY other product in the cart
-        if (name === specificPillowName) {
-             if (hasAnyOtherProduct) {
-                // Discount the full price of the pillow(s)
-                totalDiscount += (p.price * p.quantity);
-                hasPillowDiscount = true;
-             }
-        }
+  const confirmReadyToIssue = () => checkSaleCodeAvailable() && confirmValidDocument() && confirmPayments();
 
-        // RULE: Base Discounts based on Mattresses (Bundle Logic)
-        if (name.startsWith("BASE")) {
-            let targetPrice = 0;
-            let applied = false;
-
-            if (name.includes("CASAL") && casalMattressCount > 0) {
-                targetPrice = 250.00;
-                const quantityToDiscount = Math.min(p.quantity, casalMattressCount);
-                if (quantityToDiscount > 0) {
-                    const discountPerItem = Math.max(0, p.price - targetPrice);
-                    totalDiscount += (discountPerItem * quantityToDiscount);
-                    casalMattressCount -= quantityToDiscount;
-                    if (discountPerItem > 0) applied = true;
-                }
-            }
-            else if (name.includes("QUEEN") && queenMattressCount > 0) {
-                targetPrice = 300.00;
-                const quantityToDiscount = Math.min(p.quantity, queenMattressCount);
-                if (quantityToDiscount > 0) {
-                    const discountPerItem = Math.max(0, p.price - targetPrice);
-                    totalDiscount += (discountPerItem * quantityToDiscount);
-                    queenMattressCount -= quantityToDiscount;
-                    if (discountPerItem > 0) applied = true;
-                }
-            }
-            else if (name.includes("SUPER KING") && superKingMattressCount > 0) {
-                targetPrice = 350.00;
-                const quantityToDiscount = Math.min(p.quantity, superKingMattressCount);
-                if (quantityToDiscount > 0) {
-                    const discountPerItem = Math.max(0, p.price - targetPrice);
-                    totalDiscount += (discountPerItem * quantityToDiscount);
-                    superKingMattressCount -= quantityToDiscount;
-                    if (discountPerItem > 0) applied = true;
-                }
-            }
+  const handleGeneratePDF = async () => {
+    if (!confirmReadyToIssue()) return;
+    await generateFormattedReceiptPDF(issueReceipt(), store, receiptFormat);
+  };
 
-            if (applied) {
-                hasBaseDiscount = true;
-            }
-        }
-    });
+  const handlePrintReceipt = async () => {
+    if (!confirmReadyToIssue()) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      alert("O navegador bloqueou a janela de impressão. Permita pop-ups para este site e tente novamente.");
+      return;
+    }
+    try {
+      await printReceipt(issueReceipt(), store, receiptFormat, printWindow);
+    } catch (error) {
+      printWindow.close();
+      console.error("Erro ao gerar a impressão:", error);
+      alert("Não foi possível gerar o comprovante para impressão.");
+    }
+  };
 
-    // Logic for Label
-    let label = "";
-    if (hasBaseDiscount && hasPillowDiscount) {
-        label = "Desconto Combo + Travesseiro Brinde";
-    } else if (hasBaseDiscount) {
-        label = "Desconto Combo (Base+Colchão)";
-    } else if (hasPillowDiscount) {
-        label = "Desconto (Travesseiro Brinde)";
-    } else {
-        // Fallback
-        label = "Desconto Promocional";
+  // One certificate page per product of the sale on screen
+  const handleGenerateWarranty = async () => {
+    if (!confirmReadyToIssue()) return;
+    const receipt = issueReceipt();
+    const indexes = getWarrantyProducts(receipt).map(({ index }) => index);
+    if (indexes.length === 0) {
+      alert("Nenhum produto com garantia nesta venda.");
+      return;
     }
+    await generateWarrantyCertificatePDF(receipt, store, indexes);
+  };
 
-    return { totalDiscount, label };
+  const handleDocumentTypeChange = (documentType: ReceiptDocumentType) => {
+    setData(prev => ({
+      ...prev,
+      documentType,
+      validUntil: documentType === 'ORÇAMENTO' ? (prev.validUntil || getDefaultValidUntil(prev.date)) : undefined,
+    }));
   };
 
-  // --- TOTAL CALCULATIONS ---
-  const subtotal = data.products.reduce((acc, curr) => acc + (curr.price * curr.quantity), 0);
-  const bundleDetails = getBundleDetails(data.products);
-  const bundleDiscount = bundleDetails.totalDiscount;
-  const bundleDiscountLabel = bundleDetails.label;
-  
-  let manualDiscount = 0;
-  if (data.discountType === 'fixed') {
-    manualDiscount = data.discountValue;
-  } else {
-    manualDiscount = subtotal * (data.discountValue / 100);
-  }
-
-  const totalDiscount = bundleDiscount + manualDiscount;
-  const totalValue = Math.max(0, subtotal - totalDiscount);
-
-  // Helper to create a temporary data object with the FULL discount applied for the PDF/Message
-  const getDataForExport = () => {
-    return {
-        ...data,
-        bundleDiscount: bundleDiscount,
-        bundleLabel: bundleDiscountLabel, // Pass the computed label
-        discountType: data.discountType,
-        discountValue: data.discountValue
-    } as ReceiptData;
+  // Opens a new sale with the quoted items and prices; the quote stays in the archive, flagged as converted
+  const startSaleFromQuote = (quote: ReceiptData) => {
+    if (quote.convertedAt && !window.confirm("Este orçamento já foi convertido em venda. Converter novamente?")) return;
+    if (isQuoteExpired(quote) && !window.confirm(`Orçamento vencido em ${new Date(quote.validUntil + 'T12:00:00').toLocaleDateString('pt-BR')}. Converter mantendo os preços orçados?`)) return;
+
+    setArchive(prev => markQuoteConverted(prev, quote.archiveId!));
+    setData({ ...INITIAL_DATA, ...convertQuoteToSale(quote) });
+    setDiscountInput(quote.discountValue ? quote.discountValue.toString().replace('.', ',') : "");
+    setActiveTab('manual');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleGeneratePDF = async () => {
-    await generateReceiptPDF(getDataForExport());
+  const handleConvertArchivedQuote = (sale: ArchivedSale) => {
+    if (data.products.length > 0 && data.archiveId !== sale.id) {
+      if (!window.confirm("Converter este orçamento em venda? O atendimento atual será substituído.")) return;
+    }
+    startSaleFromQuote(sale.receipt);
+  };
+
+  // The quote on screen is stored first, so the sale can point back at it
+  const handleConvertCurrentQuote = () => {
+    if (!checkSaleCodeAvailable() || !confirmValidDocument()) return;
+    startSaleFromQuote(issueReceipt());
+  };
+
+  // The delivery order also stores the sale, so it shows up in the archive for the route
+  const handlePrintDeliveryOrder = async () => {
+    if (isQuote(data)) {
+      alert("Orçamentos não geram romaneio. Converta o orçamento em venda antes de agendar a entrega.");
+      return;
+    }
+    if (!checkSaleCodeAvailable() || !confirmValidDocument()) return;
+    await generateDeliveryOrderPDF(issueReceipt(), store);
+  };
+
+  const handleReopenSale = (sale: ArchivedSale) => {
+    if (data.products.length > 0 && data.archiveId !== sale.id) {
+      if (!window.confirm("Reabrir esta venda? O atendimento atual será substituído.")) return;
+    }
+    setData({ ...INITIAL_DATA, ...sale.receipt });
+    setDiscountInput(sale.receipt.discountValue ? sale.receipt.discountValue.toString().replace('.', ',') : "");
+    setSearchTerm("");
+    setSelectedProduct("");
+    setSelectedPrice("");
+    setSelectedQuantity("1");
+    setActiveTab('manual');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleReissueSale = async (sale: ArchivedSale) => {
+    await generateFormattedReceiptPDF(sale.receipt, getStoreIdentity(sale.receipt.branchId, storeProfile), receiptFormat);
+  };
+
+  // Balance received later (e.g. on delivery); the open form follows if it is showing the same sale
+  const handleReceivePayment = async (sale: ArchivedSale, payment: Payment) => {
+    const { sales, sale: updated } = recordArchivedPayment(archive, sale.id, payment);
+    if (!updated) return;
+    setArchive(sales);
+    if (data.archiveId === sale.id) {
+      setData(prev => ({ ...prev, payments: updated.receipt.payments }));
+    }
+    const status = getPaymentStatus(updated.receipt.payments, calculateTotals(updated.receipt).total);
+    if (status?.settled && window.confirm("Venda QUITADA. Deseja baixar o comprovante atualizado?")) {
+      try {
+        await generateFormattedReceiptPDF(updated.receipt, getStoreIdentity(updated.receipt.branchId, storeProfile), receiptFormat);
+      } catch (error) {
+        console.error("Erro ao gerar o comprovante atualizado:", error);
+      }
+    }
+  };
+
+  const handleStartReturn = (sale: ArchivedSale) => {
+    setReturningSale(sale);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleConfirmReturn = async (record: ReturnRecord) => {
+    if (!returningSale) return;
+    setReturns(prev => [...prev, record]);
+    setReturningSale(null);
+    await generateReturnPDF(record, returningSale.receipt, getStoreIdentity(returningSale.receipt.branchId, storeProfile));
+  };
+
+  const handleReissueReturn = async (record: ReturnRecord, sale: ArchivedSale) => {
+    await generateReturnPDF(record, sale.receipt, getStoreIdentity(sale.receipt.branchId, storeProfile));
+  };
+
+  const handlePrintSaleWarranty = async (sale: ArchivedSale) => {
+    const indexes = getWarrantyProducts(sale.receipt).map(({ index }) => index);
+    if (indexes.length === 0) {
+      alert("Nenhum produto com garantia nesta venda.");
+      return;
+    }
+    await generateWarrantyCertificatePDF(sale.receipt, getStoreIdentity(sale.receipt.branchId, storeProfile), indexes);
+  };
+
+  const handlePrintWarrantyCertificate = async (sale: ArchivedSale, productIndex: number) => {
+    await generateWarrantyCertificatePDF(sale.receipt, getStoreIdentity(sale.receipt.branchId, storeProfile), [productIndex]);
+  };
+
+  const handleDeliveryStatusChange = (sale: ArchivedSale, status: DeliveryStatus) => {
+    setArchive(prev => updateArchivedDeliveryStatus(prev, sale.id, status));
+    if (data.archiveId === sale.id && data.delivery) {
+      setData(prev => prev.delivery ? { ...prev, delivery: { ...prev.delivery, status } } : prev);
+    }
+  };
+
+  // The route covers every branch's deliveries, so it carries the default branch header
+  const routeStore = getStoreIdentity(undefined, storeProfile);
+
+  const handleDownloadRouteSheet = async (route: Route) => {
+    await generateRouteSheetPDF(route, routeStore);
+  };
+
+  const handleShareRouteSheet = async (route: Route) => {
+    try {
+      const blob = await getRouteSheetBlob(route, routeStore);
+      const fileName = getRouteSheetFileName(route);
+      const file = new File([blob], fileName, { type: 'application/pdf' });
+      const messageText = `Rota de entregas - ${formatDeliveryDate(route.date)}\n${route.stopCount} entrega(s) · A receber: ${route.totalToCollect.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`;
+
+      if (navigator.canShare && navigator.canShare({ files: [file] })) {
+        await navigator.share({
+          title: `Rota de Entregas - ${store.name}`,
+          text: messageText,
+          files: [file]
+        });
+      } else {
+        const link = document.createElement('a');
+        link.href = window.URL.createObjectURL(blob);
+        link.download = fileName;
+        link.click();
+
+        window.open(getWhatsAppUrl(messageText), '_blank');
+
+        setTimeout(() => {
+            alert("⬇️ O PDF da rota foi baixado.\n\nO WhatsApp Web foi aberto. Escolha o motorista e arraste o arquivo para a conversa.");
+        }, 1000);
+      }
+    } catch (error) {
+      console.error("Erro ao compartilhar rota:", error);
+    }
   };
 
   const handleSendEmail = async () => {
+    if (!confirmReadyToIssue()) return;
     try {
-      const exportData = getDataForExport();
-      const blob = await getReceiptBlob(exportData);
+      const exportData = issueReceipt();
+      const blob = await getReceiptBlob(exportData, store);
       const safeName = exportData.name ? exportData.name.toUpperCase() : 'CLIENTE';
-      const fileName = `COMPROVANTE - ${safeName}.pdf`;
+      const fileName = `${getDocumentFilePrefix(exportData)} - ${safeName}.pdf`;
       const file = new File([blob], fileName, { type: 'application/pdf' });
+      const documentName = isQuote(exportData) ? 'orçamento' : 'comprovante de compra';
 
       if (navigator.canShare && navigator.canShare({ files: [file] })) {
         await navigator.share({
-          title: 'Comprovante de Compra - BelConfort',
-          text: `Olá ${exportData.name}, segue em anexo o seu comprovante de compra.`,
+          title: `${isQuote(exportData) ? 'Orçamento' : 'Comprovante de Compra'} - ${store.name}`,
+          text: `Olá ${exportData.name}, segue em anexo o seu ${documentName}.`,
           files: [file]
         });
       } else {
@@ -527,8 +887,8 @@ export default function App() {
         link.download = fileName;
         link.click();
         
-        const subject = encodeURIComponent("Comprovante de Compra - BelConfort");
-        const body = encodeURIComponent(`Olá ${exportData.name},\n\nSegue o comprovante de compra.\n(Por favor, anexe o arquivo PDF baixado manualmente).`);
+        const subject = encodeURIComponent(`${isQuote(exportData) ? 'Orçamento' : 'Comprovante de Compra'} - ${store.name}`);
+        const body = encodeURIComponent(`Olá ${exportData.name},\n\nSegue o ${documentName}.\n(Por favor, anexe o arquivo PDF baixado manualmente).`);
         window.location.href = `mailto:?subject=${subject}&body=${body}`;
         
         alert("O PDF foi baixado automaticamente. Por favor, anexe-o ao e-mail que foi aberto.");
@@ -538,20 +898,45 @@ export default function App() {
     }
   };
 
-  const handleSendWhatsApp = async () => {
+  // Devices that can share the PDF itself hand the contact choice to the share sheet
+  const canSharePdf = () => {
     try {
-      const exportData = getDataForExport();
-      const blob = await getReceiptBlob(exportData);
+      return !!navigator.canShare && navigator.canShare({ files: [new File([''], 'comprovante.pdf', { type: 'application/pdf' })] });
+    } catch (error) {
+      return false;
+    }
+  };
+
+  const handleSendWhatsApp = async (phoneNumber?: string) => {
+    if (phoneNumber === undefined && whatsAppContacts.length > 1 && !canSharePdf()) {
+      setIsWhatsAppPickerOpen(true);
+      return;
+    }
+    setIsWhatsAppPickerOpen(false);
+    if (!confirmReadyToIssue()) return;
+    try {
+      const exportData = issueReceipt();
+      const blob = await getReceiptBlob(exportData, store);
       const safeName = exportData.name ? exportData.name.toUpperCase() : 'CLIENTE';
-      const fileName = `COMPROVANTE - ${safeName}.pdf`;
+      const fileName = `${getDocumentFilePrefix(exportData)} - ${safeName}.pdf`;
       const file = new File([blob], fileName, { type: 'application/pdf' });
       
       const totalFormatted = totalValue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
-      const messageText = `Olá ${exportData.name || 'Cliente'}, tudo bem? 😃\n\nAqui está o seu comprovante de compra na *BelConfort Camas e Móveis*.\n\n*Atendido por:* ${exportData.salesperson}\n*Valor Total:* ${totalFormatted}\n\nObrigado pela preferência! 💙`;
+      const balanceText = paymentStatus && !paymentStatus.settled && !isQuote(exportData)
+        ? `\n*Saldo a receber:* ${paymentStatus.balanceDue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`
+        : '';
+      // Copia e cola goes last and alone on its line so it can be copied from the chat
+      const exportPix = getReceiptPix(exportData, store);
+      const pixText = exportPix
+        ? `\n\n*Pague com PIX (${exportPix.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })})* - copie o código abaixo e cole no app do seu banco:\n${exportPix.payload}`
+        : '';
+      const messageText = isQuote(exportData)
+        ? `Olá ${exportData.name || 'Cliente'}, tudo bem? 😃\n\nAqui está o seu orçamento na *${store.name}*.\n\n*Atendido por:* ${exportData.salesperson}\n*Valor Total:* ${totalFormatted}\n*Válido até:* ${exportData.validUntil ? new Date(exportData.validUntil + 'T12:00:00').toLocaleDateString('pt-BR') : '-'}\n\nQualquer dúvida, estamos à disposição! 💙${pixText}`
+        : `Olá ${exportData.name || 'Cliente'}, tudo bem? 😃\n\nAqui está o seu comprovante de compra na *${store.name}*.\n\n*Atendido por:* ${exportData.salesperson}\n*Valor Total:* ${totalFormatted}${balanceText}\n\nObrigado pela preferência! 💙${pixText}`;
 
       if (navigator.canShare && navigator.canShare({ files: [file] })) {
         await navigator.share({
-          title: 'Comprovante BelConfort',
+          title: `${isQuote(exportData) ? 'Orçamento' : 'Comprovante'} ${store.name}`,
           text: messageText,
           files: [file]
         });
@@ -561,8 +946,7 @@ export default function App() {
         link.download = fileName;
         link.click();
 
-        const encodedText = encodeURIComponent(messageText);
-        window.open(`https://wa.me/?text=${encodedText}`, '_blank');
+        window.open(getWhatsAppUrl(messageText, phoneNumber ?? whatsAppContacts[0]?.number), '_blank');
         
         setTimeout(() => {
             alert("⬇️ O PDF foi baixado no seu computador.\n\nO WhatsApp Web foi aberto. Por favor, arraste o arquivo PDF baixado para a conversa.");
@@ -575,6 +959,17 @@ export default function App() {
 
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100 font-sans selection:bg-blue-500 selection:text-white pb-20">
+
+      {isCameraOpen && (
+        <CameraScanner
+          title="Escanear Produto"
+          onDetected={(code) => {
+            setIsCameraOpen(false);
+            handleScanCode(code);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
       
       {/* Navbar */}
       <header className="border-b border-gray-800 bg-[#0047AB] shadow-lg sticky top-0 z-50">
@@ -638,6 +1033,72 @@ export default function App() {
                 <Users className="w-4 h-4" />
                 Equipe
                 </button>
+                <button
+                onClick={() => setActiveTab('archive')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                    activeTab === 'archive'
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                }`}
+                >
+                <Archive className="w-4 h-4" />
+                Arquivo
+                </button>
+                <button
+                onClick={() => setActiveTab('routes')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                    activeTab === 'routes'
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                }`}
+                >
+                <Truck className="w-4 h-4" />
+                Rotas
+                </button>
+                <button
+                onClick={() => setActiveTab('warranty')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                    activeTab === 'warranty'
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                }`}
+                >
+                <ShieldCheck className="w-4 h-4" />
+                Garantia
+                </button>
+                <button
+                onClick={() => setActiveTab('verify')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                    activeTab === 'verify'
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                }`}
+                >
+                <BadgeCheck className="w-4 h-4" />
+                Verificar
+                </button>
+                <button
+                onClick={() => setActiveTab('catalog')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                    activeTab === 'catalog'
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                }`}
+                >
+                <BookOpen className="w-4 h-4" />
+                Catálogo
+                </button>
+                <button
+                onClick={() => setActiveTab('settings')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-medium rounded-lg transition-all duration-200 ${
+                    activeTab === 'settings'
+                    ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                    : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                }`}
+                >
+                <Settings className="w-4 h-4" />
+                Loja
+                </button>
             </div>
 
             {/* Smart Import Section */}
@@ -756,6 +1217,78 @@ export default function App() {
               </div>
             )}
             
+            {/* Sales Archive Section */}
+            {activeTab === 'archive' && returningSale && (
+              <ReturnExchange
+                sale={returningSale}
+                catalog={activeCatalog}
+                categoryWarranties={categoryWarranties}
+                returns={returns}
+                salespeople={salespeople}
+                onConfirm={handleConfirmReturn}
+                onCancel={() => setReturningSale(null)}
+              />
+            )}
+            {activeTab === 'archive' && !returningSale && (
+              <SalesArchive
+                sales={archive}
+                salespeople={salespeople}
+                onReopen={handleReopenSale}
+                onReissue={handleReissueSale}
+                onReceivePayment={handleReceivePayment}
+                onConvertQuote={handleConvertArchivedQuote}
+                returns={returns}
+                onStartReturn={handleStartReturn}
+                onReissueReturn={handleReissueReturn}
+                onPrintWarranty={handlePrintSaleWarranty}
+              />
+            )}
+
+            {/* Store Settings Section */}
+            {activeTab === 'settings' && (
+              <>
+                <StoreSettings profile={storeProfile} onChange={setStoreProfile} />
+                <PolicySettings profile={storeProfile} onChange={setStoreProfile} />
+              </>
+            )}
+
+            {/* Warranty Lookup Section */}
+            {activeTab === 'warranty' && (
+              <WarrantyLookup
+                sales={archive}
+                returns={returns}
+                onPrintCertificate={handlePrintWarrantyCertificate}
+              />
+            )}
+
+            {/* Receipt Verification Section */}
+            {activeTab === 'verify' && (
+              <ReceiptVerifier sales={archive} verificationKey={storeProfile.verificationKey} />
+            )}
+
+            {/* Daily Delivery Route Section */}
+            {activeTab === 'routes' && (
+              <DeliveryRoute
+                sales={archive}
+                onStatusChange={handleDeliveryStatusChange}
+                onDownload={handleDownloadRouteSheet}
+                onShare={handleShareRouteSheet}
+              />
+            )}
+
+            {/* Catalog Manager Section */}
+            {activeTab === 'catalog' && (
+              <>
+                <CatalogManager
+                  catalog={catalog}
+                  onChange={setCatalog}
+                  categoryWarranties={categoryWarranties}
+                  onCategoryWarrantiesChange={setCategoryWarranties}
+                />
+                <PromotionsManager rules={promotions} onChange={setPromotions} />
+              </>
+            )}
+
             {/* Products Section (Manual) */}
             {activeTab === 'manual' && (
              <>
@@ -771,8 +1304,35 @@ export default function App() {
                 <div className="space-y-4">
                     <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 flex flex-col gap-3">
                     
+                    {/* Picker Mode Toggle */}
+                    <div className="flex p-0.5 bg-gray-900 rounded-lg border border-gray-700 text-xs">
+                        <button
+                            onClick={() => setPickerMode('search')}
+                            className={`flex-1 py-1.5 rounded-md font-medium transition-colors ${pickerMode === 'search' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                            Buscar
+                        </button>
+                        <button
+                            onClick={() => setPickerMode('model')}
+                            className={`flex-1 py-1.5 rounded-md font-medium transition-colors ${pickerMode === 'model' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                            Por Modelo
+                        </button>
+                    </div>
+
+                    {/* Model → Size → Color Picker */}
+                    {pickerMode === 'model' && (
+                        <ProductPicker
+                            catalog={activeCatalog}
+                            selectedName={selectedProduct}
+                            onSelect={handleSearchSelect}
+                        />
+                    )}
+
                     {/* Searchable Input */}
-                    <div className="relative">
+                    {pickerMode === 'search' && (
+                    <div className="relative flex gap-2">
+                        <div className="relative flex-1">
                         <Input
                             label="Buscar Produto..."
                             value={searchTerm}
@@ -781,11 +1341,21 @@ export default function App() {
                                 setIsSearchOpen(true);
                                 setSelectedProduct(""); // Clear exact selection while typing
                             }}
+                            onKeyDown={(e) => {
+                                // A scanner focused on this field types the code and presses Enter
+                                if (e.key === 'Enter' && findCatalogItemByCode(activeCatalog, searchTerm)) {
+                                    e.preventDefault();
+                                    handleScanCode(searchTerm);
+                                    setSearchTerm("");
+                                    setIsSearchOpen(false);
+                                }
+                            }}
                             onFocus={() => setIsSearchOpen(true)}
                             // Delay blur to allow click on dropdown items
                             onBlur={() => setTimeout(() => setIsSearchOpen(false), 200)}
                             icon={<Search className="w-4 h-4" />}
                             autoComplete="off"
+                            data-scanner-field
                         />
                         
                         {/* Dropdown Results - Filtered by debounced term */}
@@ -808,7 +1378,26 @@ export default function App() {
                                 )}
                             </div>
                         )}
+                        </div>
+                        <button
+                            onClick={() => setIsCameraOpen(true)}
+                            title="Escanear com a câmera"
+                            className="p-3.5 bg-gray-800 border-2 border-gray-600 hover:border-gray-500 text-gray-400 hover:text-blue-400 rounded-lg transition-colors"
+                        >
+                            <ScanLine className="w-4 h-4" />
+                        </button>
                     </div>
+                    )}
+
+                    {scanMessage && (
+                        <div className={`px-3 py-2 rounded-lg text-xs border truncate ${
+                            scanMessage.type === 'error'
+                                ? 'bg-red-900/20 border-red-500/50 text-red-300'
+                                : 'bg-green-900/20 border-green-500/50 text-green-300'
+                        }`}>
+                            {scanMessage.text}
+                        </div>
+                    )}
 
                     {/* Price, Qty Row */}
                     <div className="grid grid-cols-2 gap-2">
@@ -843,7 +1432,10 @@ export default function App() {
                     {/* Products List */}
                     {data.products.length > 0 && (
                     <div className="space-y-2 mt-4">
-                        {data.products.map((p, idx) => (
+                        {data.products.map((p, idx) => {
+                        const defaultWarranty = getDefaultWarrantyFor(p.name);
+                        const warrantyChanged = differsFromDefaultWarranty(p, defaultWarranty);
+                        return (
                         <div key={idx} className="bg-gray-800 p-3 rounded-lg border border-gray-700 group">
                             <div className="flex items-center justify-between mb-2">
                                 <div className="flex-1 min-w-0 pr-4">
@@ -889,26 +1481,40 @@ export default function App() {
                                     </select>
                                 </div>
                             </div>
+                            {warrantyChanged && (
+                                <div className="flex items-center justify-between gap-2 mt-2 text-[10px] text-yellow-400">
+                                    <span className="flex items-center gap-1">
+                                        <AlertTriangle className="w-3 h-3" />
+                                        Garantia diferente do padrão ({formatWarrantyTerm(defaultWarranty!)})
+                                    </span>
+                                    <button
+                                        onClick={() => handleResetProductWarranty(idx)}
+                                        className="font-bold uppercase hover:text-yellow-300 transition-colors"
+                                    >
+                                        Restaurar
+                                    </button>
+                                </div>
+                            )}
                         </div>
-                        ))}
+                        );
+                        })}
                         
                         {/* Discount & Payment Section */}
                         <div className="mt-4 pt-4 border-t border-gray-700">
                             
-                            {/* Payment Method - Moved Here */}
+                            {/* Payment Method - Moved Here (quotes confirm no payment) */}
+                            {!isQuote(data) && (
                             <div className="mb-4">
                                 <div className="flex items-center justify-between mb-2">
                                     <span className="text-xs text-gray-400 uppercase font-bold tracking-wider">Forma de Pagamento</span>
                                 </div>
-                                <Select
-                                    label="Selecione o método..."
-                                    name="paymentMethod"
-                                    value={data.paymentMethod}
-                                    onChange={handleChange}
-                                    options={["DINHEIRO", "PIX", "CARTÃO", "OUTROS"]}
-                                    icon={<CreditCard className="w-4 h-4" />}
+                                <PaymentsEditor
+                                    payments={data.payments || []}
+                                    total={totalValue}
+                                    onChange={(payments) => setData(prev => ({ ...prev, payments }))}
                                 />
                             </div>
+                            )}
 
                             {/* Discount Section */}
                             <div className="flex items-center justify-between mb-2">
@@ -945,13 +1551,13 @@ export default function App() {
                                     <span>{subtotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
                                 </div>
 
-                                {/* Automatic Bundle Discount Display */}
-                                {bundleDiscount > 0 && (
-                                    <div className="flex justify-between items-center text-blue-400">
-                                        <span className="flex items-center gap-1"><Tag className="w-3 h-3"/> {bundleDiscountLabel}:</span>
-                                        <span>- {bundleDiscount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                {/* Automatic Promotion Discounts (one line per rule) */}
+                                {appliedPromotions.map(promo => (
+                                    <div key={promo.ruleId} className="flex justify-between items-center text-blue-400">
+                                        <span className="flex items-center gap-1"><Tag className="w-3 h-3"/> {promo.label}:</span>
+                                        <span>- {promo.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
                                     </div>
-                                )}
+                                ))}
 
                                 {manualDiscount > 0 && (
                                     <div className="flex justify-between items-center text-red-400">
@@ -980,10 +1586,67 @@ export default function App() {
                     <span className="w-1 h-6 bg-blue-500 rounded-full"></span>
                     Dados do Cliente
                     </h2>
-                    <span className="text-xs text-gray-500 uppercase tracking-wider">Formulário</span>
+                    <div className="flex bg-gray-800 rounded-lg p-0.5 border border-gray-700">
+                        {(['VENDA', 'ORÇAMENTO'] as ReceiptDocumentType[]).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => handleDocumentTypeChange(type)}
+                                className={`px-3 py-1 text-[10px] font-bold uppercase rounded-md transition-colors ${
+                                    (data.documentType || 'VENDA') === type ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-gray-200'
+                                }`}
+                            >
+                                {type}
+                            </button>
+                        ))}
+                    </div>
                 </div>
+
+                {isQuote(data) && (
+                    <div className="mb-4 bg-orange-900/20 border border-orange-500/40 rounded-lg p-3 space-y-3">
+                        <Input
+                            label="Válido até"
+                            type="date"
+                            name="validUntil"
+                            value={data.validUntil || ''}
+                            onChange={handleChange}
+                            icon={<Calendar className="w-4 h-4" />}
+                            error={isQuoteExpired(data) ? 'Orçamento vencido' : undefined}
+                        />
+                        <button
+                            onClick={handleConvertCurrentQuote}
+                            disabled={data.products.length === 0}
+                            className="w-full flex items-center justify-center gap-2 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold uppercase transition-colors"
+                        >
+                            <FileText className="w-4 h-4" />
+                            Converter em Venda
+                        </button>
+                    </div>
+                )}
+
+                {data.pricesLocked && !isQuote(data) && (
+                    <div className="mb-4 bg-blue-900/20 border border-blue-500/40 text-blue-300 rounded-lg p-3 text-xs flex items-center gap-2">
+                        <ShieldCheck className="w-4 h-4 flex-shrink-0" />
+                        Preços travados conforme o orçamento de origem.
+                    </div>
+                )}
                 
                 <div className="space-y-4">
+                    {storeProfile.branches.length > 1 && (
+                        <div className="relative">
+                            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400">
+                                <Building2 className="w-4 h-4" />
+                            </div>
+                            <select
+                                value={store.branch.id}
+                                onChange={(e) => setData(prev => ({ ...prev, branchId: e.target.value }))}
+                                className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block pl-10 p-3 uppercase cursor-pointer"
+                            >
+                                {storeProfile.branches.map(branch => (
+                                    <option key={branch.id} value={branch.id}>FILIAL {branch.name || formatBranchAddress(branch)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                         <Input 
                             label="Código da Venda" 
@@ -992,6 +1655,8 @@ export default function App() {
                             onChange={handleChange}
                             icon={<Barcode className="w-4 h-4" />}
                             className="font-mono text-yellow-400 tracking-wider"
+                            placeholder={isQuote(data) ? 'CÓDIGO DA VENDA' : `AUTOMÁTICO: ${getNextSaleCode(store.branch.id, saleCodePattern, saleCounters, archive).code}`}
+                            error={saleCodeCollision ? `Já usado na venda de ${saleCodeCollision.receipt.name || 'outro cliente'}` : undefined}
                         />
                          <Select
                             label="Vendedor"
@@ -1015,8 +1680,10 @@ export default function App() {
                             label="CPF/CNPJ" 
                             name="cpf"
                             value={data.cpf || ''}
-                            onChange={handleChange}
+                            onChange={handleDocumentChange}
                             icon={<Hash className="w-4 h-4" />}
+                            inputMode="numeric"
+                            error={documentValidation.error}
                         />
                     </div>
                     
@@ -1028,6 +1695,17 @@ export default function App() {
                         icon={<User className="w-4 h-4" />}
                     />
 
+                    <Input 
+                    label="CEP" 
+                    name="cep"
+                    value={data.cep || ''}
+                    onChange={handleCepChange}
+                    icon={isResolvingCep ? <Loader2 className="w-4 h-4 animate-spin" /> : <MapPin className="w-4 h-4" />}
+                    inputMode="numeric"
+                    error={cepStatus || undefined}
+                    hint={cepHint || undefined}
+                    />
+
                     <Input 
                     label="Rua" 
                     name="street"
@@ -1107,19 +1785,46 @@ export default function App() {
                         label="Contato 1" 
                         name="contact1"
                         value={data.contact1}
-                        onChange={handleChange}
+                        onChange={handlePhoneChange}
+                        onBlur={handlePhoneBlur}
                         icon={<Phone className="w-4 h-4" />}
+                        inputMode="tel"
+                        error={contact1Validation.error}
                     />
                     <Input 
                         label="Contato 2" 
                         name="contact2"
                         value={data.contact2}
-                        onChange={handleChange}
+                        onChange={handlePhoneChange}
+                        onBlur={handlePhoneBlur}
                         icon={<Phone className="w-4 h-4" />}
+                        inputMode="tel"
+                        error={contact2Validation.error}
                     />
                     </div>
                 </div>
                 </div>
+
+                <DeliveryEditor
+                    delivery={data.delivery}
+                    onChange={(delivery) => setData(prev => ({ ...prev, delivery }))}
+                    onPrintOrder={isQuote(data) ? undefined : handlePrintDeliveryOrder}
+                />
+
+                <ObservationEditor
+                    observation={data.observation}
+                    templates={storeProfile.observationTemplates ?? DEFAULT_OBSERVATION_TEMPLATES}
+                    onChange={(observation) => setData(prev => ({ ...prev, observation }))}
+                />
+
+                {!isQuote(data) && (
+                <SignaturesEditor
+                    signatures={data.signatures}
+                    customerName={data.name}
+                    salesperson={data.salesperson}
+                    onChange={(signatures) => setData(prev => ({ ...prev, signatures }))}
+                />
+                )}
              </>
             )}
           </div>
@@ -1135,7 +1840,7 @@ export default function App() {
                  </div>
                  <span className="text-sm font-medium text-gray-300">Ações Rápidas</span>
               </div>
-              <div className="flex gap-3">
+              <div className="flex flex-wrap gap-3">
                 <button
                   onClick={handleResetData}
                   className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-red-900/20"
@@ -1143,13 +1848,45 @@ export default function App() {
                   <RotateCcw className="w-4 h-4" />
                   Novo Cliente
                 </button>
-                <button
-                  onClick={handleSendWhatsApp}
-                  className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-green-900/20"
-                >
-                  <MessageCircle className="w-4 h-4" />
-                  WhatsApp
-                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => handleSendWhatsApp()}
+                    className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-green-900/20"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    WhatsApp
+                  </button>
+                  {isWhatsAppPickerOpen && (
+                    <div className="absolute right-0 top-full mt-2 z-50 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-1 animate-in fade-in duration-150">
+                      <p className="px-3 py-2 text-[10px] text-gray-500 uppercase tracking-wider font-bold">Enviar para</p>
+                      {whatsAppContacts.map(contact => (
+                        <button
+                          key={contact.number}
+                          onClick={() => handleSendWhatsApp(contact.number!)}
+                          className="w-full text-left px-3 py-2 rounded hover:bg-gray-700 transition-colors"
+                        >
+                          <span className="block text-[10px] text-gray-400 uppercase">{contact.label}</span>
+                          <span className="block text-sm text-gray-100 font-mono">{contact.phone}</span>
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => setIsWhatsAppPickerOpen(false)}
+                        className="w-full text-left px-3 py-2 rounded text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                      >
+                        Cancelar
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {!isQuote(data) && (
+                  <button
+                    onClick={handleGenerateWarranty}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-gray-900/20"
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    Garantia
+                  </button>
+                )}
                 <button
                   onClick={handleSendEmail}
                   className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-gray-900/20"
@@ -1157,6 +1894,21 @@ export default function App() {
                   <Mail className="w-4 h-4" />
                   E-mail
                 </button>
+                <select
+                  value={receiptFormat}
+                  onChange={(e) => setReceiptFormat(e.target.value as ReceiptFormat)}
+                  title="Papel do comprovante"
+                  className="bg-gray-800 border-2 border-gray-600 hover:border-gray-500 text-gray-200 text-sm rounded-lg px-2 py-1.5 cursor-pointer"
+                >
+                  {RECEIPT_FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+                </select>
+                <button
+                  onClick={handlePrintReceipt}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-gray-900/20"
+                >
+                  <Printer className="w-4 h-4" />
+                  Imprimir
+                </button>
                 <button
                   onClick={handleGeneratePDF}
                   className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors shadow-lg shadow-blue-900/20"
@@ -1179,14 +1931,15 @@ export default function App() {
                     {/* 1. Header (Blue) */}
                     <div className="bg-[#1e40af] text-white p-6 -mx-8 -mt-8 mb-6 flex justify-between items-start">
                        <div className="flex flex-col justify-center h-full">
-                           <h1 className="font-serif font-bold text-3xl">BelConfort</h1>
-                           <span className="text-[9px] tracking-[0.2em] font-sans">CAMAS E MÓVEIS</span>
+                           <h1 className="font-serif font-bold text-3xl">{store.name}</h1>
+                           <span className="text-[9px] tracking-[0.2em] font-sans">{store.tagline}</span>
                        </div>
                        <div className="flex flex-col items-end text-[9px] leading-tight space-y-1 mt-2">
-                           <p className="font-bold">CNPJ 60.190.028/0001-60</p>
-                           <p>RUA B, 103C, CASTANHEIRA - BELEM/PA</p>
-                           <p>belconfortcamasemoveis@gmail.com</p>
-                           <p>(91) 99381-2592</p>
+                           {store.branch.cnpj && <p className="font-bold">CNPJ {store.branch.cnpj}</p>}
+                           <p>{formatBranchAddress(store.branch)}</p>
+                           <p>{store.branch.email}</p>
+                           <p>{store.branch.phone}</p>
+                           {store.instagramUrl && (
                            <div className="mt-2 w-8 h-8 bg-white/20 border border-white/40 flex items-center justify-center">
                                {/* QR Placeholder */}
                                <div className="w-6 h-6 bg-white/90 grid grid-cols-3 gap-0.5 p-0.5">
@@ -1195,15 +1948,21 @@ export default function App() {
                                    <div className="bg-blue-900"></div>
                                </div>
                            </div>
+                           )}
                        </div>
                     </div>
 
                     {/* 2. Title */}
                     <div className="text-center mb-6">
-                        <h2 className="text-lg font-bold text-gray-900 uppercase">COMPROVANTE DE COMPRA</h2>
+                        <h2 className="text-lg font-bold text-gray-900 uppercase">{getDocumentTitle(data)}</h2>
                         <p className="text-[10px] text-gray-500">
                              Emissão: {new Date().toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' })} às {new Date().toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
                         </p>
+                        {isQuote(data) && (
+                            <p className="text-[10px] font-bold text-orange-600">
+                                Válido até {data.validUntil ? new Date(data.validUntil + 'T12:00:00').toLocaleDateString('pt-BR') : '-'}
+                            </p>
+                        )}
                     </div>
 
                     {/* 3. Client Data Grid (Boxed) */}
@@ -1212,21 +1971,28 @@ export default function App() {
                         <div className="grid grid-cols-[20%_55%_25%] border-b border-gray-300">
                             <PreviewCell label="DATA DO PEDIDO" value={data.date ? new Date(data.date + 'T12:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '-'} className="border-r border-gray-300" />
                             <PreviewCell label="CLIENTE" value={data.name} className="border-r border-gray-300" />
-                            <PreviewCell label="CPF/CNPJ" value={data.cpf} />
+                            <PreviewCell label={getDocumentLabel(data.cpf || '')} value={data.cpf} />
                         </div>
                         {/* Row 2 - Split Address Grid */}
-                        <div className="grid grid-cols-[40%_10%_15%_20%_15%] border-b border-gray-300">
+                        <div className="grid grid-cols-[32%_8%_14%_18%_15%_13%] border-b border-gray-300">
                             <PreviewCell label="RUA" value={data.street} className="border-r border-gray-300" />
                             <PreviewCell label="Nº" value={data.number} className="border-r border-gray-300" />
                             <PreviewCell label="COMPLEMENTO" value={data.complement} className="border-r border-gray-300" />
                             <PreviewCell label="BAIRRO" value={data.neighborhood} className="border-r border-gray-300" />
-                            <PreviewCell label="CIDADE" value={data.city} />
+                            <PreviewCell label="CIDADE" value={data.city} className="border-r border-gray-300" />
+                            <PreviewCell label="CEP" value={data.cep} />
                         </div>
                         {/* Row 3 - Email, Contacts - REMOVED PAYMENT FROM HERE */}
                         <div className="grid grid-cols-[55%_45%]">
                              <PreviewCell label="E-MAIL" value={data.email} className="border-r border-gray-300" />
                              <PreviewCell label="CONTATOS" value={[data.contact1, data.contact2].filter(Boolean).join(' / ')} />
                         </div>
+                        {data.delivery && (
+                            <div className="grid grid-cols-[45%_55%] border-t border-gray-300">
+                                <PreviewCell label="ENTREGA" value={`${formatDeliveryDate(data.delivery.date)} · ${data.delivery.timeWindow}`} className="border-r border-gray-300" />
+                                <PreviewCell label="PONTO DE REFERÊNCIA" value={data.delivery.referencePoint} />
+                            </div>
+                        )}
                     </div>
 
                     {/* 4. Products Table */}
@@ -1269,18 +2035,44 @@ export default function App() {
                     <div className="flex items-start pt-5 mb-4 justify-between">
                         {/* Sale Code & Payment & Salesperson - Boxed/Grid Style */}
                         <div className="border border-gray-300 rounded w-[240px]">
-                            <div className="flex justify-between items-center px-3 py-2 border-b border-gray-300 bg-gray-50/50">
-                                <span className="text-[10px] font-bold text-gray-400 uppercase">CÓDIGO DA VENDA</span>
-                                <span className="text-sm font-bold text-blue-800">{data.saleCode?.toUpperCase() || '-'}</span>
+                            <div className="px-3 py-2 border-b border-gray-300 bg-gray-50/50">
+                                <div className="flex justify-between items-center">
+                                    <span className="text-[10px] font-bold text-gray-400 uppercase">CÓDIGO DA VENDA</span>
+                                    <span className="text-sm font-bold text-blue-800">{data.saleCode?.toUpperCase() || '-'}</span>
+                                </div>
+                                <BarcodePreview code={data.saleCode?.toUpperCase()} className="h-6" />
                             </div>
                             <div className="flex justify-between items-center px-3 py-2 border-b border-gray-300">
                                 <span className="text-[10px] font-bold text-gray-400 uppercase">VENDEDOR</span>
                                 <span className="text-xs font-bold text-gray-700">{data.salesperson?.toUpperCase() || '-'}</span>
                             </div>
-                            <div className="flex justify-between items-center px-3 py-2">
-                                <span className="text-[10px] font-bold text-gray-400 uppercase">FORMA DE PAGAMENTO</span>
-                                <span className="text-sm font-medium text-gray-900">{data.paymentMethod?.toUpperCase() || '-'}</span>
-                            </div>
+                            {isQuote(data) ? (
+                                <div className="flex justify-between items-center px-3 py-2">
+                                    <span className="text-[10px] font-bold text-gray-400 uppercase">VALIDADE DO ORÇAMENTO</span>
+                                    <span className="text-sm font-bold text-orange-600">{data.validUntil ? new Date(data.validUntil + 'T12:00:00').toLocaleDateString('pt-BR') : '-'}</span>
+                                </div>
+                            ) : data.payments && data.payments.length > 0 ? (
+                                <div className="px-3 py-2">
+                                    <span className="text-[10px] font-bold text-gray-400 uppercase">PAGAMENTO</span>
+                                    {data.payments.map((payment, i) => (
+                                        <div key={i} className="flex justify-between items-center text-[10px] text-gray-900">
+                                            <span className="font-medium">{getPaymentLabel(payment)}</span>
+                                            <span className="font-bold">{payment.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                        </div>
+                                    ))}
+                                    {data.payments.filter(p => getChangeDue(p) > 0).map((payment, i) => (
+                                        <div key={`change-${i}`} className="flex justify-between items-center text-[9px] text-gray-500">
+                                            <span>RECEBIDO {payment.cashTendered!.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                            <span>TROCO {getChangeDue(payment).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="flex justify-between items-center px-3 py-2">
+                                    <span className="text-[10px] font-bold text-gray-400 uppercase">FORMA DE PAGAMENTO</span>
+                                    <span className="text-sm font-medium text-gray-900">{data.paymentMethod?.toUpperCase() || '-'}</span>
+                                </div>
+                            )}
                         </div>
 
                         {/* Totals */}
@@ -1289,83 +2081,123 @@ export default function App() {
                                  <span>Subtotal:</span>
                                  <span>{subtotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
                              </div>
-                             {bundleDiscount > 0 && (
-                                <div className="flex justify-between mb-1 text-blue-500 font-medium">
-                                    <span>{bundleDiscountLabel}:</span>
-                                    <span>- {bundleDiscount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                             {appliedPromotions.map(promo => (
+                                <div key={promo.ruleId} className="flex justify-between mb-1 text-blue-500 font-medium">
+                                    <span>{promo.label}:</span>
+                                    <span>- {promo.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
                                 </div>
-                             )}
+                             ))}
                              {manualDiscount > 0 && (
                                 <div className="flex justify-between mb-1 text-red-500">
                                     <span>Desc. Vendedor:</span>
                                     <span>- {manualDiscount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
                                 </div>
                              )}
+                             {deliveryFee > 0 && (
+                                <div className="flex justify-between mb-1 text-gray-600">
+                                    <span>Taxa de Entrega:</span>
+                                    <span>+ {deliveryFee.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                </div>
+                             )}
                              <div className="flex justify-between mt-2 bg-gray-50 p-1 rounded font-bold text-gray-900 border border-gray-200">
                                  <span>TOTAL:</span>
                                  <span>{totalValue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
                              </div>
+                             {paymentStatus && !isQuote(data) && (
+                                <>
+                                    <div className="flex justify-between mt-2 mb-1 text-gray-600">
+                                        <span>Valor Pago:</span>
+                                        <span>{paymentStatus.paid.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                    </div>
+                                    {paymentStatus.settled ? (
+                                        <div className="text-center border-2 border-green-600 text-green-700 font-bold rounded py-1 tracking-widest">QUITADO</div>
+                                    ) : (
+                                        <div className="flex justify-between border-2 border-orange-500 text-orange-700 font-bold rounded p-1">
+                                            <span>SALDO A RECEBER:</span>
+                                            <span>{paymentStatus.balanceDue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                        </div>
+                                    )}
+                                </>
+                             )}
                         </div>
                     </div>
 
                     {/* 6. Observation */}
+                    {data.observation.trim() && (
                     <div className="bg-[#fefce8] border border-[#fef9c3] rounded-lg p-3 text-center mb-2">
                         <p className="text-[10px] font-bold text-[#a16207] mb-1">OBSERVAÇÃO</p>
-                        <p className="text-[10px] italic text-gray-700 leading-tight">
-                            A garantia cobre exclusivamente o que está especificado na etiqueta e no certificado de cada produto.
+                        <p className="text-[10px] italic text-gray-700 leading-tight whitespace-pre-line">
+                            {data.observation.trim()}
                         </p>
                     </div>
+                    )}
+
+                    {/* 6b. PIX */}
+                    {pix && (
+                    <div className="border border-slate-200 rounded-lg p-3 mb-2 text-left">
+                        <p className="text-[10px] font-bold text-gray-800">PAGUE COM PIX</p>
+                        <p className="text-[10px] font-bold text-green-700">{pix.label}: {pix.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <p className="text-[8px] font-bold text-gray-400 mt-1">PIX COPIA E COLA:</p>
+                        <p className="text-[9px] font-mono text-gray-700 break-all leading-tight">{pix.payload}</p>
+                    </div>
+                    )}
 
                     {/* 7. Return Policy (CDC) */}
+                    {store.policySections.length > 0 && (
                     <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-left mb-auto mt-2">
-                        <p className="text-[10px] font-bold text-slate-800 mb-2 text-center uppercase border-b border-slate-200 pb-1">Política de Trocas e Devoluções</p>
+                        <p className="text-[10px] font-bold text-slate-800 mb-2 text-center uppercase border-b border-slate-200 pb-1">{POLICY_TITLE}</p>
                         
                         <div className="space-y-2">
-                            <div>
-                                <p className="text-[9px] font-bold text-slate-700">DIREITO DE ARREPENDIMENTO <span className="font-normal text-slate-500">(Art. 49 do CDC)</span>:</p>
-                                <p className="text-[9px] text-slate-600 leading-tight mt-0.5 pl-1">
-                                    O cliente tem o prazo de até 7 (sete) dias corridos para desistir da compra, contados a partir do recebimento do produto, desde que esteja sem uso e com lacre intacto.
-                                </p>
-                                <p className="text-[9px] text-slate-600 leading-tight mt-0.5 pl-3">
-                                    • Compras online: frete de devolução por conta da empresa.
-                                </p>
-                            </div>
-
-                            <div>
-                                <p className="text-[9px] font-bold text-slate-700">COMPRAS EM LOJA FÍSICA:</p>
-                                <p className="text-[9px] text-slate-600 leading-tight mt-0.5 pl-1">
-                                    Compras realizadas em loja física não possuem direito de arrependimento, conforme o Código de Defesa do Consumidor, exceto em casos de defeito de fabricação.
+                            {store.policySections.map(section => (
+                            <div key={section.id}>
+                                {section.title && (
+                                <p className="text-[9px] font-bold text-slate-700">{section.title} {section.note && <span className="font-normal text-slate-500">{section.note}</span>}</p>
+                                )}
+                                {parsePolicyText(section.body).map((line, i) => (
+                                <p key={i} className={`text-[9px] text-slate-600 leading-tight mt-0.5 ${line.bullet ? 'pl-3' : 'pl-1'}`}>
+                                    {line.bullet && '• '}
+                                    {line.segments.map((segment, j) => segment.bold
+                                        ? <strong key={j} className="text-slate-700">{segment.text}</strong>
+                                        : <span key={j}>{segment.text}</span>)}
                                 </p>
+                                ))}
                             </div>
-
-                            <div>
-                                <p className="text-[9px] font-bold text-slate-700">DEFEITOS DE FABRICAÇÃO (Garantia Legal):</p>
-                                <ul className="list-disc pl-3 text-[9px] text-slate-600 leading-tight mt-0.5 space-y-0.5">
-                                    <li>Garantia legal de 90 (noventa) dias, conforme o CDC.</li>
-                                    <li>Após esse prazo, aplicar-se-á a garantia contratual do fabricante, quando houver, conforme certificado.</li>
-                                </ul>
-                            </div>
+                            ))}
                         </div>
                     </div>
+                    )}
 
-                    {/* 8. Footer (Stamp & Signature) */}
-                    <div className="mt-12 pt-8 pb-4 relative">
-                        {/* Signature Line */}
-                        <div className="border-t border-dashed border-gray-400 w-1/2 mx-auto mb-1"></div>
-                        <p className="text-[10px] text-gray-500 text-center">Assinatura do Responsável</p>
+                    {/* 8. Footer (Stamp & Signature; quotes confirm no payment) */}
+                    {isQuote(data) ? (
+                    <div className="mt-8 pb-4 text-center">
+                        <p className="text-[10px] italic text-gray-500">
+                            Este orçamento não é comprovante de pagamento nem garante reserva de estoque.
+                        </p>
                         <p className="text-[8px] text-gray-300 text-center mt-4">Documento gerado pelo Ecosistema Belconfort</p>
-
-                        {/* Simulated Signature Layer (SVG) */}
-                        <div className="absolute top-0 left-1/2 -translate-x-1/2 -translate-y-2 w-40 h-20 pointer-events-none opacity-50 text-blue-900">
-                            <svg viewBox="0 0 100 50" width="100%" height="100%">
-                                <path 
-                                    d="M35 36 C 37 21, 43 21, 43 36 C 43 24, 49 24, 49 36 C 51 33, 53 38, 54 35 L 56 28 L 56 36 C 57 26, 61 26, 61 36 C 61 31, 64 31, 64 36 C 67 34, 70 38, 73 34 M 30 41 C 45 44, 65 39, 80 42" 
-                                    fill="none" 
-                                    stroke="currentColor" 
-                                    strokeWidth="0.15" // Very thin
-                                />
-                            </svg>
+                    </div>
+                    ) : (
+                    <div className="mt-12 pt-8 pb-4 relative">
+                        {/* Signature Lines (customer / salesperson) */}
+                        <div className="grid grid-cols-[1fr_12rem_1fr] gap-4 items-end">
+                            {(['customer', 'salesperson'] as const).map((role, i) => {
+                                const signature = data.signatures?.[role];
+                                return (
+                                <div key={role} className={`text-center ${i === 1 ? 'col-start-3' : ''}`}>
+                                    <div className="h-12 flex items-end justify-center">
+                                        {signature ? (
+                                            <img src={signature.image} alt={SIGNATURE_LABELS[role]} className="max-h-12 max-w-full object-contain" />
+                                        ) : role === 'customer' && isUnsigned(data) ? (
+                                            <span className="text-[9px] font-bold text-red-500 mb-1">{UNSIGNED_LABEL}</span>
+                                        ) : null}
+                                    </div>
+                                    <div className="border-t border-dashed border-gray-400 mb-1"></div>
+                                    <p className="text-[10px] text-gray-500">{SIGNATURE_LABELS[role]}</p>
+                                    {signature && <p className="text-[8px] text-gray-400">{formatSignedAt(signature)}</p>}
+                                </div>
+                                );
+                            })}
                         </div>
+                        <p className="text-[8px] text-gray-300 text-center mt-4">Documento gerado pelo Ecosistema Belconfort</p>
 
                         {/* Simulated Stamp Layer */}
                         <div className="absolute -top-6 left-1/2 -translate-x-1/2 w-48 h-20 pointer-events-none flex flex-col items-center justify-center">
@@ -1377,14 +2209,15 @@ export default function App() {
                             
                             {/* Content */}
                             <div className="text-blue-900 text-center z-10">
-                                <p className="font-bold text-sm leading-tight">60.190.028/0001-60</p>
-                                <p className="text-[10px] leading-tight mt-1">BELCONFORT CAMAS E MÓVEIS</p>
-                                <p className="font-bold text-[8px] leading-tight mt-1">RUA B, 103C, CASTANHEIRA</p>
-                                <p className="font-bold text-[8px] leading-tight">BELEM - PA</p>
+                                <p className="font-bold text-sm leading-tight">{store.branch.cnpj || '-'}</p>
+                                <p className="text-[10px] leading-tight mt-1 uppercase">{store.name} {store.tagline}</p>
+                                <p className="font-bold text-[8px] leading-tight mt-1 uppercase">{[store.branch.street, store.branch.neighborhood].filter(Boolean).join(', ')}</p>
+                                <p className="font-bold text-[8px] leading-tight uppercase">{[store.branch.city, store.branch.state].filter(Boolean).join(' - ')}</p>
                             </div>
                         </div>
 
                     </div>
+                    )}
                 </div>
             </div>
 
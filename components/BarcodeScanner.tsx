@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X, AlertTriangle } from 'lucide-react';
+
+// Keyboard-wedge scanners "type" the code much faster than a person and finish with Enter
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+// Fields that already take scanned codes themselves (e.g. the product search) are marked with
+// this attribute; the hook leaves them alone
+const SCANNER_FIELD_ATTRIBUTE = 'data-scanner-field';
+
+const isEditableElement = (element: Element | null) =>
+  !!element && (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT' ||
+    (element as HTMLElement).isContentEditable
+  );
+
+// A scan made while another field had focus was also typed into it; take it back out.
+// Controlled inputs only notice the change through the native setter plus an input event.
+const removeTypedCode = (element: Element | null, code: string) => {
+  if (!(element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) return;
+  if (!element.value.toUpperCase().endsWith(code.toUpperCase())) return;
+  const prototype = element instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(element, element.value.slice(0, -code.length));
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+// Listens for scanner bursts anywhere on the page, told apart from typing by the key timing.
+// Runs in the capture phase so the scan's Enter never reaches the focused field or form.
+export const useKeyboardWedgeScanner = (onScan: (code: string) => void, enabled: boolean = true) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const focused = document.activeElement;
+      if (focused?.hasAttribute(SCANNER_FIELD_ATTRIBUTE)) {
+        buffer = "";
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          e.stopPropagation();
+          if (isEditableElement(focused)) removeTypedCode(focused, buffer);
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled]);
+};
+
+// Minimal typing of the Shape Detection API, not in the TS DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+interface CameraScannerProps {
+  title?: string;
+  formats?: string[];
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+// Camera scanning through the browser BarcodeDetector API (Chrome/Android, Safari 17+)
+export const CameraScanner: React.FC<CameraScannerProps> = ({
+  title = "Escanear Código",
+  formats = ['code_128', 'ean_13', 'ean_8', 'upc_a', 'qr_code'],
+  onDetected,
+  onClose,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const Detector = typeof window !== 'undefined' ? window.BarcodeDetector : undefined;
+    if (!Detector) {
+      setError("Este navegador não suporta leitura pela câmera. Use um leitor USB ou digite o código.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        const detector = new Detector({ formats });
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const scan = async () => {
+          if (stopped || !videoRef.current) return;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0 && codes[0].rawValue) {
+              stopped = true;
+              onDetected(codes[0].rawValue);
+              return;
+            }
+          } catch (e) { /* frame not ready */ }
+          frame = requestAnimationFrame(scan);
+        };
+        scan();
+      } catch (err) {
+        console.error("Camera error", err);
+        setError("Não foi possível acessar a câmera. Verifique a permissão do navegador.");
+      }
+    };
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-4 shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Camera className="w-4 h-4 text-blue-400" />
+            {title}
+          </h3>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-200 hover:bg-gray-800 rounded transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {error ? (
+          <div className="bg-red-900/20 border border-red-500/50 text-red-200 p-4 rounded-lg text-sm flex gap-3 items-start">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-400" />
+            <p>{error}</p>
+          </div>
+        ) : (
+          <div className="relative rounded-lg overflow-hidden bg-black aspect-[4/3]">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80 shadow-[0_0_8px_rgba(239,68,68,0.8)]"></div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CatalogItem, WarrantyUnit } from '../types';
+import { assignSkus, catalogToCSV, findCatalogItemByCode, isCatalogItemActive, parseCatalogCSV, renameCatalogItem, sortCatalog, withParsedAttributes } from '../services/catalogService';
+import { CategoryWarranties, WARRANTY_UNITS, formatWarrantyTerm } from '../services/warrantyService';
+import { todayISODate } from '../services/dateService';
+import { parsePriceInput } from '../services/formatService';
+import { Input } from './Input';
+import { Search, Plus, Tag, Package, Upload, FileDown, Pencil, Check, X, Eye, EyeOff, ShieldCheck } from 'lucide-react';
+
+interface CatalogManagerProps {
+  catalog: CatalogItem[];
+  onChange: (items: CatalogItem[]) => void;
+  categoryWarranties: CategoryWarranties;
+  onCategoryWarrantiesChange: (warranties: CategoryWarranties) => void;
+}
+
+const formatPrice = (value: number) => value.toFixed(2).replace('.', ',');
+
+const smallFieldClass = "bg-gray-800 border-2 border-gray-600 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5";
+
+export const CatalogManager: React.FC<CatalogManagerProps> = ({ catalog, onChange, categoryWarranties, onCategoryWarrantiesChange }) => {
+  const [filter, setFilter] = useState("");
+  const [showInactive, setShowInactive] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editPrice, setEditPrice] = useState("");
+  const [editEan, setEditEan] = useState("");
+  const [editWarrantyTime, setEditWarrantyTime] = useState("");
+  const [editWarrantyUnit, setEditWarrantyUnit] = useState<WarrantyUnit>('MESES');
+  const [message, setMessage] = useState<{ type: 'error' | 'success', text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const term = filter.trim().toUpperCase();
+  // A printed SKU/EAN typed in the filter jumps straight to its product
+  const codeMatch = term ? findCatalogItemByCode(catalog, term) : undefined;
+  const visibleItems = codeMatch ? [codeMatch] : catalog.filter(item =>
+    (!term || item.name.includes(term)) && (showInactive || isCatalogItemActive(item))
+  );
+  const activeCount = catalog.filter(isCatalogItemActive).length;
+  const categories = useMemo(() =>
+    Array.from(new Set(catalog.map(item => item.category).filter((c): c is string => !!c))).sort(),
+  [catalog]);
+
+  const updateCategoryWarranty = (category: string, time: string, unit: WarrantyUnit) => {
+    const next = { ...categoryWarranties };
+    if (time.trim()) next[category] = { time: time.trim(), unit };
+    else delete next[category];
+    onCategoryWarrantiesChange(next);
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim().toUpperCase();
+    if (!name) return;
+    if (catalog.some(item => item.name === name)) {
+      setMessage({ type: 'error', text: `"${name}" já está no catálogo.` });
+      return;
+    }
+    onChange(sortCatalog(assignSkus([...catalog, withParsedAttributes({ name, price: parsePriceInput(newPrice), active: true })])));
+    setNewName("");
+    setNewPrice("");
+    setMessage({ type: 'success', text: `"${name}" adicionado.` });
+  };
+
+  const startEdit = (item: CatalogItem) => {
+    setEditingName(item.name);
+    setEditName(item.name);
+    setEditPrice(formatPrice(item.price));
+    setEditEan(item.ean || "");
+    setEditWarrantyTime(item.warranty?.time || "");
+    setEditWarrantyUnit(item.warranty?.unit || 'MESES');
+  };
+
+  const saveEdit = () => {
+    if (!editingName) return;
+    const name = editName.trim().toUpperCase();
+    if (!name) return;
+    if (name !== editingName && catalog.some(item => item.name === name)) {
+      setMessage({ type: 'error', text: `"${name}" já está no catálogo.` });
+      return;
+    }
+    const ean = editEan.trim() || undefined;
+    const warranty = editWarrantyTime.trim() ? { time: editWarrantyTime.trim(), unit: editWarrantyUnit } : undefined;
+    onChange(sortCatalog(catalog.map(item =>
+      item.name !== editingName ? item
+        : name !== item.name ? { ...renameCatalogItem(item, name), price: parsePriceInput(editPrice), ean, warranty }
+        : { ...item, price: parsePriceInput(editPrice), ean, warranty }
+    )));
+    setEditingName(null);
+  };
+
+  const toggleActive = (name: string) => {
+    onChange(catalog.map(item =>
+      item.name === name ? { ...item, active: !isCatalogItemActive(item) } : item
+    ));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob(['\uFEFF' + catalogToCSV(catalog)], { type: 'text/csv;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = window.URL.createObjectURL(blob);
+    link.download = `CATALOGO BELCONFORT - ${todayISODate()}.csv`;
+    link.click();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const items = parseCatalogCSV(await file.text());
+      if (window.confirm(`Substituir o catálogo atual (${catalog.length} itens) pelos ${items.length} itens do arquivo?`)) {
+        // Rows without a SKU keep the code their product already had
+        onChange(assignSkus(items, catalog));
+        setMessage({ type: 'success', text: `${items.length} itens importados.` });
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message || "Falha ao ler o arquivo CSV." });
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-teal-500 rounded-full"></span>
+          Catálogo de Produtos
+        </h2>
+        <span className="text-xs text-gray-500 uppercase tracking-wider">{activeCount}/{catalog.length} ativos</span>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-xs border ${
+          message.type === 'error'
+            ? 'bg-red-900/20 border-red-500/50 text-red-300'
+            : 'bg-green-900/20 border-green-500/50 text-green-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {/* Add Item */}
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-4 space-y-2">
+        <Input
+          label="Nome do Produto"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          icon={<Package className="w-4 h-4" />}
+        />
+        <div className="flex gap-2 items-end">
+          <Input
+            label="Valor (R$)"
+            value={newPrice}
+            onChange={(e) => setNewPrice(e.target.value)}
+            placeholder="0,00"
+            icon={<Tag className="w-4 h-4" />}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newName.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white p-3.5 rounded-lg transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* CSV Actions */}
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center justify-center gap-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-bold transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Importar CSV
+        </button>
+        <button
+          onClick={handleExport}
+          className="flex items-center justify-center gap-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-bold transition-colors"
+        >
+          <FileDown className="w-4 h-4" />
+          Exportar CSV
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+      </div>
+
+      {/* Default warranty per category (items without their own default use it) */}
+      {categories.length > 0 && (
+        <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-4 space-y-2">
+          <p className="text-xs text-gray-400 uppercase font-bold tracking-wider flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Garantia de fábrica por categoria
+          </p>
+          {categories.map(category => {
+            const term = categoryWarranties[category];
+            return (
+              <div key={category} className="grid grid-cols-[1fr_4rem_6rem] gap-2 items-center">
+                <span className="text-xs text-gray-300 uppercase truncate">{category}</span>
+                <input
+                  value={term?.time || ''}
+                  onChange={(e) => updateCategoryWarranty(category, e.target.value.replace(/\D/g, ''), term?.unit || 'MESES')}
+                  placeholder="-"
+                  inputMode="numeric"
+                  className={`${smallFieldClass} w-full text-center`}
+                />
+                <select
+                  value={term?.unit || 'MESES'}
+                  onChange={(e) => term && updateCategoryWarranty(category, term.time, e.target.value as WarrantyUnit)}
+                  className={`${smallFieldClass} w-full uppercase cursor-pointer`}
+                >
+                  {WARRANTY_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Filter */}
+      <div className="flex gap-2 items-center mb-3">
+        <Input
+          label="Filtrar por nome, SKU ou EAN..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          icon={<Search className="w-4 h-4" />}
+          autoComplete="off"
+        />
+        <button
+          onClick={() => setShowInactive(!showInactive)}
+          title={showInactive ? "Ocultar inativos" : "Mostrar inativos"}
+          className="p-3.5 bg-gray-800 border-2 border-gray-600 hover:border-gray-500 text-gray-400 rounded-lg transition-colors"
+        >
+          {showInactive ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {/* Items */}
+      <div className="space-y-2 max-h-[600px] overflow-y-auto pr-1">
+        {visibleItems.map(item => {
+          const active = isCatalogItemActive(item);
+          const isEditing = editingName === item.name;
+          return (
+            <div key={item.name} className={`bg-gray-800 p-3 rounded-lg border border-gray-700 ${active ? '' : 'opacity-50'}`}>
+              {isEditing ? (
+                <div className="space-y-2">
+                  <input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    className="w-full bg-gray-800 border-2 border-gray-600 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5 uppercase"
+                  />
+                  <input
+                    value={editEan}
+                    onChange={(e) => setEditEan(e.target.value)}
+                    placeholder="EAN / REF. FABRICANTE"
+                    className="w-full bg-gray-800 border-2 border-gray-600 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5 font-mono"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      value={editWarrantyTime}
+                      onChange={(e) => setEditWarrantyTime(e.target.value.replace(/\D/g, ''))}
+                      placeholder={`GARANTIA${item.category && categoryWarranties[item.category] ? ` (${formatWarrantyTerm(categoryWarranties[item.category])})` : ''}`}
+                      inputMode="numeric"
+                      className={`${smallFieldClass} w-full`}
+                    />
+                    <select
+                      value={editWarrantyUnit}
+                      onChange={(e) => setEditWarrantyUnit(e.target.value as WarrantyUnit)}
+                      className={`${smallFieldClass} w-full uppercase cursor-pointer`}
+                    >
+                      {WARRANTY_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      value={editPrice}
+                      onChange={(e) => setEditPrice(e.target.value)}
+                      className="flex-1 bg-gray-800 border-2 border-gray-600 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5"
+                    />
+                    <button onClick={saveEdit} className="p-2 text-green-400 hover:bg-green-400/10 rounded transition-colors">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingName(null)} className="p-2 text-gray-500 hover:bg-gray-700 rounded transition-colors">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-0.5">
+                      <span className="text-[10px] font-mono text-gray-500 border border-gray-700 rounded px-1">{item.sku}</span>
+                      {item.ean && <span className="text-[10px] font-mono text-gray-600">EAN {item.ean}</span>}
+                    </div>
+                    <p className="text-xs text-gray-200 font-medium uppercase truncate">{item.name}</p>
+                    <p className="text-xs text-green-400 font-bold">
+                      {item.price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                      {!active && <span className="ml-2 text-[10px] text-gray-500">INATIVO</span>}
+                    </p>
+                    {item.warranty?.time ? (
+                      <p className="text-[10px] text-gray-400">GARANTIA {formatWarrantyTerm(item.warranty)}</p>
+                    ) : item.category && categoryWarranties[item.category] && (
+                      <p className="text-[10px] text-gray-500">GARANTIA {formatWarrantyTerm(categoryWarranties[item.category])} (CATEGORIA)</p>
+                    )}
+                  </div>
+                  <button onClick={() => startEdit(item)} className="p-2 text-gray-500 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => toggleActive(item.name)}
+                    title={active ? "Desativar" : "Reativar"}
+                    className="p-2 text-gray-500 hover:text-yellow-400 hover:bg-yellow-400/10 rounded transition-colors"
+                  >
+                    {active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {visibleItems.length === 0 && (
+          <p className="text-center text-gray-500 text-sm py-4">Nenhum produto encontrado.</p>
+        )}
+      </div>
+    </div>
+  );
+};
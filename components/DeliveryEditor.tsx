@@ -0,0 +1,99 @@
+import React from 'react';
+import { DeliveryInfo, DeliveryStatus } from '../types';
+import { DELIVERY_TIME_WINDOWS, DELIVERY_STATUSES, createDelivery } from '../services/deliveryService';
+import { Input, MoneyInput } from './Input';
+import { Truck, Calendar, MapPin, ClipboardList } from 'lucide-react';
+
+interface DeliveryEditorProps {
+  delivery?: DeliveryInfo;
+  onChange: (delivery: DeliveryInfo | undefined) => void;
+  onPrintOrder?: () => void; // Absent on quotes: nothing was sold to deliver yet
+}
+
+const fieldClass = "w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block p-3 uppercase";
+
+export const DeliveryEditor: React.FC<DeliveryEditorProps> = ({ delivery, onChange, onPrintOrder }) => {
+  const update = (changes: Partial<DeliveryInfo>) => {
+    if (delivery) onChange({ ...delivery, ...changes });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-teal-500 rounded-full"></span>
+          Entrega
+        </h2>
+        <label className="flex items-center gap-2 text-xs text-gray-400 uppercase tracking-wider cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!delivery}
+            onChange={(e) => onChange(e.target.checked ? createDelivery() : undefined)}
+            className="w-4 h-4 accent-teal-500"
+          />
+          Venda com entrega
+        </label>
+      </div>
+
+      {delivery ? (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Data da Entrega"
+              type="date"
+              value={delivery.date}
+              onChange={(e) => update({ date: e.target.value })}
+              icon={<Calendar className="w-4 h-4" />}
+            />
+            <select
+              value={delivery.timeWindow}
+              onChange={(e) => update({ timeWindow: e.target.value })}
+              className={`${fieldClass} cursor-pointer`}
+            >
+              {DELIVERY_TIME_WINDOWS.map(window => <option key={window} value={window}>{window}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] text-gray-500 uppercase font-bold tracking-wider pl-1">Taxa de Entrega (R$)</span>
+              <MoneyInput value={delivery.fee} onChange={(fee) => update({ fee })} className={fieldClass} />
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-[10px] text-gray-500 uppercase font-bold tracking-wider pl-1">Status</span>
+              <select
+                value={delivery.status}
+                onChange={(e) => update({ status: e.target.value as DeliveryStatus })}
+                className={`${fieldClass} cursor-pointer`}
+              >
+                {DELIVERY_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <Input
+            label="Ponto de Referência"
+            value={delivery.referencePoint}
+            onChange={(e) => update({ referencePoint: e.target.value })}
+            icon={<MapPin className="w-4 h-4" />}
+          />
+
+          {onPrintOrder && (
+            <button
+              onClick={onPrintOrder}
+              className="w-full flex items-center justify-center gap-2 py-2.5 bg-teal-600/20 hover:bg-teal-600/40 text-teal-400 rounded-lg text-xs font-bold uppercase transition-colors"
+            >
+              <ClipboardList className="w-4 h-4" />
+              Gerar Romaneio de Entrega
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Truck className="w-4 h-4" />
+          Cliente retira na loja.
+        </p>
+      )}
+    </div>
+  );
+};
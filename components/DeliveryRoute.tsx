@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { ArchivedSale, DeliveryStatus } from '../types';
+import { buildDeliveryRoute, formatStopBalance, DeliveryRoute as Route, DELIVERY_STATUSES } from '../services/deliveryService';
+import { todayISODate } from '../services/dateService';
+import { formatCurrency } from '../services/formatService';
+import { Input } from './Input';
+import { Calendar, Download, Share2, ExternalLink, Package, Truck } from 'lucide-react';
+
+interface DeliveryRouteProps {
+  sales: ArchivedSale[];
+  onStatusChange: (sale: ArchivedSale, status: DeliveryStatus) => void;
+  onDownload: (route: Route) => void;
+  onShare: (route: Route) => void;
+}
+
+export const DeliveryRoute: React.FC<DeliveryRouteProps> = ({ sales, onStatusChange, onDownload, onShare }) => {
+  const [date, setDate] = useState(todayISODate);
+
+  const route = useMemo(() => buildDeliveryRoute(sales, date), [sales, date]);
+  let stopNumber = 0;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-teal-500 rounded-full"></span>
+          Rota de Entregas
+        </h2>
+        <span className="text-xs text-gray-500 uppercase tracking-wider">{route.stopCount} entregas</span>
+      </div>
+
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-6 space-y-3">
+        <Input
+          label="Data"
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          icon={<Calendar className="w-4 h-4" />}
+        />
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-gray-400 uppercase font-bold tracking-wider">A receber no dia</span>
+          <span className="text-yellow-400 font-bold">{formatCurrency(route.totalToCollect)}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onDownload(route)}
+            disabled={route.stopCount === 0}
+            className="flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Baixar PDF
+          </button>
+          <button
+            onClick={() => onShare(route)}
+            disabled={route.stopCount === 0}
+            className="flex items-center justify-center gap-2 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold transition-colors"
+          >
+            <Share2 className="w-4 h-4" />
+            Enviar ao Motorista
+          </button>
+        </div>
+      </div>
+
+      {route.loadList.length > 0 && (
+        <div className="mb-6">
+          <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2 flex items-center gap-2">
+            <Package className="w-4 h-4" />
+            Carregar
+          </p>
+          <div className="bg-gray-800 rounded-lg border border-gray-700 divide-y divide-gray-700">
+            {route.loadList.map(item => (
+              <div key={item.code || item.name} className="flex justify-between items-center px-3 py-2 text-xs">
+                <span className="text-gray-300 truncate pr-2">{item.name}</span>
+                <span className="text-white font-bold">{item.quantity}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {route.groups.map(group => (
+          <div key={`${group.city}|${group.neighborhood}`}>
+            <p className="text-xs text-teal-400 uppercase font-bold tracking-wider mb-2">
+              {group.neighborhood} · {group.city}
+            </p>
+            <div className="space-y-2">
+              {group.stops.map(stop => {
+                stopNumber++;
+                const r = stop.sale.receipt;
+                return (
+                  <div key={stop.sale.id} className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+                    <div className="flex items-start gap-3">
+                      <span className="text-lg font-bold text-blue-400 w-6 text-center">{stopNumber}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-[10px] font-mono text-yellow-400 border border-gray-700 rounded px-1">{r.saleCode || 'S/ CÓDIGO'}</span>
+                          <span className="text-[10px] text-gray-500">{r.delivery?.timeWindow}</span>
+                        </div>
+                        <p className="text-sm text-gray-200 font-medium uppercase truncate">{r.name || 'CLIENTE'}</p>
+                        <p className="text-xs text-gray-500 uppercase">{r.street}, {r.number || 'S/N'}{r.complement ? ` - ${r.complement}` : ''}</p>
+                        {r.delivery?.referencePoint && (
+                          <p className="text-xs text-gray-500 italic">Ref.: {r.delivery.referencePoint}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-1">
+                          {stop.items.map(item => `${item.quantity}x ${item.name}`).join(' · ')}
+                        </p>
+                        <p className={`text-xs font-bold mt-1 ${stop.balanceDue > 0 || !stop.paymentInformed ? 'text-yellow-400' : 'text-green-400'}`}>
+                          {formatStopBalance(stop)}
+                        </p>
+                      </div>
+                      <div className="flex flex-col gap-1 items-end">
+                        {stop.mapsUrl && (
+                          <a
+                            href={stop.mapsUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/40 text-blue-400 rounded text-xs font-bold transition-colors"
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                            Maps
+                          </a>
+                        )}
+                        <select
+                          value={r.delivery?.status}
+                          onChange={(e) => onStatusChange(stop.sale, e.target.value as DeliveryStatus)}
+                          className="bg-gray-700 border border-gray-600 text-gray-200 text-[10px] rounded px-1 py-1 uppercase cursor-pointer"
+                        >
+                          {DELIVERY_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+        {route.stopCount === 0 && (
+          <p className="flex items-center justify-center gap-2 text-gray-500 text-sm py-4">
+            <Truck className="w-4 h-4" />
+            Nenhuma entrega agendada para esta data.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
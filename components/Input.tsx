@@ -1,23 +1,33 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { formatPriceInput, parsePriceInput } from '../services/formatService';
 
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
   icon?: React.ReactNode;
+  error?: string; // Shows the field in an error state with this message below it
+  hint?: string; // Neutral note below the field, hidden while there is an error
 }
 
-export const Input: React.FC<InputProps> = ({ label, icon, className, ...props }) => {
+export const Input: React.FC<InputProps> = ({ label, icon, error, hint, className, ...props }) => {
   return (
     <div className="flex flex-col gap-1 w-full">
       <div className="relative group">
-        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-400 group-focus-within:text-blue-400 transition-colors">
+        <div className={`absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none transition-colors ${error ? 'text-red-400' : 'text-gray-400 group-focus-within:text-blue-400'}`}>
           {icon}
         </div>
         <input
-          className={`w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block w-full pl-10 p-3 placeholder-gray-400 transition-all duration-200 uppercase ${className}`}
+          className={`w-full bg-gray-800 border-2 text-gray-100 text-sm rounded-lg focus:ring-2 block w-full pl-10 p-3 placeholder-gray-400 transition-all duration-200 uppercase ${
+            error
+              ? 'border-red-500 hover:border-red-400 focus:border-red-500 focus:ring-red-500/20'
+              : 'border-gray-600 hover:border-gray-500 focus:border-blue-500 focus:ring-blue-500/20'
+          } ${className}`}
           placeholder={label.toUpperCase()}
+          aria-invalid={!!error}
           {...props}
         />
       </div>
+      {error && <span className="text-[11px] text-red-400 font-medium pl-1">{error}</span>}
+      {!error && hint && <span className="text-[11px] text-gray-400 font-medium pl-1">{hint}</span>}
     </div>
   );
 };
@@ -63,4 +73,27 @@ export const TextArea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement
       />
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Text field for money that keeps what is being typed ("500,") and only reports the parsed value
+export const MoneyInput: React.FC<{ value: number; onChange: (value: number) => void; placeholder?: string; className?: string }> = ({ value, onChange, placeholder, className }) => {
+  const [text, setText] = useState(formatPriceInput(value));
+
+  useEffect(() => {
+    if (parsePriceInput(text) !== value) setText(formatPriceInput(value));
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      placeholder={placeholder || '0,00'}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parsePriceInput(e.target.value));
+      }}
+      className={className}
+    />
+  );
+};
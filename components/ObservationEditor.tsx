@@ -0,0 +1,52 @@
+import React from 'react';
+import { TextArea } from './Input';
+import { Plus } from 'lucide-react';
+
+interface ObservationEditorProps {
+  observation: string;
+  templates: string[];
+  onChange: (observation: string) => void;
+}
+
+export const ObservationEditor: React.FC<ObservationEditorProps> = ({ observation, templates, onChange }) => {
+  // Templates are appended on a new line, so "ENTREGAR APÓS 14H" can be combined with a free note
+  const handleApplyTemplate = (template: string) => {
+    if (observation.includes(template)) return;
+    onChange(observation.trim() ? `${observation.trimEnd()}\n${template}` : template);
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-yellow-500 rounded-full"></span>
+          Observação
+        </h2>
+        <span className="text-xs text-gray-500 uppercase tracking-wider">Impressa no comprovante</span>
+      </div>
+
+      {templates.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {templates.map(template => (
+            <button
+              key={template}
+              onClick={() => handleApplyTemplate(template)}
+              disabled={observation.includes(template)}
+              className="flex items-center gap-1 px-3 py-1 bg-yellow-500/10 hover:bg-yellow-500/20 disabled:opacity-40 disabled:cursor-not-allowed text-yellow-400 border border-yellow-500/30 rounded-full text-xs font-bold transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {template}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <TextArea
+        label="Observação da venda"
+        value={observation}
+        onChange={(e) => onChange(e.target.value.toUpperCase())}
+        className="min-h-[80px]"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React from 'react';
+import { Payment, PaymentMethod } from '../types';
+import { PAYMENT_METHODS, CARD_BRANDS, MAX_INSTALLMENTS, isCardPayment, getChangeDue, getInstallmentValue, checkPayments } from '../services/paymentService';
+import { formatCurrency } from '../services/formatService';
+import { MoneyInput } from './Input';
+import { Plus, Trash2, CreditCard, AlertTriangle, CheckCircle2, Wallet } from 'lucide-react';
+
+interface PaymentsEditorProps {
+  payments: Payment[];
+  total: number;
+  onChange: (payments: Payment[]) => void;
+}
+
+const fieldClass = "w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-blue-500 uppercase";
+
+export const PaymentsEditor: React.FC<PaymentsEditorProps> = ({ payments, total, onChange }) => {
+  const check = checkPayments(payments, total);
+
+  const updatePayment = (index: number, changes: Partial<Payment>) => {
+    onChange(payments.map((p, i) => i === index ? { ...p, ...changes } : p));
+  };
+
+  const handleMethodChange = (index: number, method: PaymentMethod) => {
+    // Drop the fields that do not apply to the new method
+    updatePayment(index, {
+      method,
+      installments: method === 'CRÉDITO' ? 1 : undefined,
+      cardBrand: method === 'CRÉDITO' || method === 'DÉBITO' ? payments[index].cardBrand : undefined,
+      cashTendered: method === 'DINHEIRO' ? payments[index].cashTendered : undefined,
+    });
+  };
+
+  // New lines start with whatever is still missing from the total (lower it to leave a balance due)
+  const handleAddPayment = () => {
+    const method: PaymentMethod = payments.length === 0 ? 'PIX' : 'CRÉDITO';
+    onChange([...payments, {
+      method,
+      amount: Math.max(0, check.remaining),
+      installments: method === 'CRÉDITO' ? 1 : undefined,
+    }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {payments.map((payment, index) => (
+        <div key={index} className="bg-gray-800/50 border border-gray-700 rounded-lg p-2 space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+            <select
+              value={payment.method}
+              onChange={(e) => handleMethodChange(index, e.target.value as PaymentMethod)}
+              className={`${fieldClass} cursor-pointer`}
+            >
+              {PAYMENT_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+            </select>
+            <MoneyInput value={payment.amount} onChange={(amount) => updatePayment(index, { amount })} className={fieldClass} />
+            <button
+              onClick={() => onChange(payments.filter((_, i) => i !== index))}
+              className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {isCardPayment(payment) && (
+            <div className="grid grid-cols-2 gap-2">
+              {payment.method === 'CRÉDITO' ? (
+                <select
+                  value={payment.installments || 1}
+                  onChange={(e) => updatePayment(index, { installments: parseInt(e.target.value) })}
+                  className={`${fieldClass} cursor-pointer`}
+                >
+                  {Array.from({ length: MAX_INSTALLMENTS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>
+                      {n === 1 ? 'À VISTA' : `${n}X DE ${formatCurrency(getInstallmentValue({ ...payment, installments: n }))}`}
+                    </option>
+                  ))}
+                </select>
+              ) : <div />}
+              <select
+                value={payment.cardBrand || ''}
+                onChange={(e) => updatePayment(index, { cardBrand: e.target.value || undefined })}
+                className={`${fieldClass} cursor-pointer`}
+              >
+                <option value="">BANDEIRA</option>
+                {CARD_BRANDS.map(brand => <option key={brand} value={brand}>{brand}</option>)}
+              </select>
+            </div>
+          )}
+
+          {payment.method === 'DINHEIRO' && (
+            <div className="grid grid-cols-2 gap-2 items-center">
+              <MoneyInput
+                value={payment.cashTendered || 0}
+                onChange={(cashTendered) => updatePayment(index, { cashTendered: cashTendered || undefined })}
+                placeholder="VALOR RECEBIDO"
+                className={fieldClass}
+              />
+              <span className="text-xs text-gray-400 text-right">
+                Troco: <span className="font-bold text-yellow-400">{formatCurrency(getChangeDue(payment))}</span>
+              </span>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={handleAddPayment}
+        className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-gray-600 hover:border-blue-500 text-gray-400 hover:text-blue-400 rounded-lg text-xs font-bold uppercase transition-colors"
+      >
+        {payments.length === 0 ? <CreditCard className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+        {payments.length === 0 ? 'Informar pagamento' : 'Adicionar pagamento'}
+      </button>
+
+      {payments.length > 0 && (
+        check.error ? (
+          <div className="flex items-center gap-2 text-xs px-1 text-red-400">
+            <AlertTriangle className="w-4 h-4" />
+            <span>{check.error}</span>
+          </div>
+        ) : check.matches ? (
+          <div className="flex items-center gap-2 text-xs px-1 text-green-400">
+            <CheckCircle2 className="w-4 h-4" />
+            <span>Pagamentos conferem: {formatCurrency(check.paid)}</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-xs px-1 text-yellow-400">
+            <Wallet className="w-4 h-4" />
+            <span>Pago {formatCurrency(check.paid)} · Saldo a receber {formatCurrency(check.remaining)}</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
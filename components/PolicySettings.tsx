@@ -0,0 +1,228 @@
+import React, { useRef, useState } from 'react';
+import { PolicySection, StoreProfile } from '../types';
+import { createPolicySection, parsePolicyText, DEFAULT_OBSERVATION_TEMPLATES, DEFAULT_POLICY_SECTIONS, POLICY_TITLE } from '../services/policyService';
+import { Input } from './Input';
+import { Bold, List, Plus, Trash2, RotateCcw, Heading, MessageSquareText, X } from 'lucide-react';
+
+interface PolicySettingsProps {
+  profile: StoreProfile;
+  onChange: (profile: StoreProfile) => void;
+}
+
+const bodyClass = "w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block p-3 placeholder-gray-400 min-h-[100px] resize-y";
+
+interface PolicySectionEditorProps {
+  section: PolicySection;
+  onChange: (changes: Partial<PolicySection>) => void;
+  onRemove: () => void;
+}
+
+const PolicySectionEditor: React.FC<PolicySectionEditorProps> = ({ section, onChange, onRemove }) => {
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  // Wraps the selected text in **...** (or inserts an empty pair at the cursor)
+  const handleBold = () => {
+    const el = bodyRef.current;
+    if (!el) return;
+    const { selectionStart, selectionEnd, value } = el;
+    const selected = value.slice(selectionStart, selectionEnd);
+    onChange({ body: `${value.slice(0, selectionStart)}**${selected}**${value.slice(selectionEnd)}` });
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(selectionStart + 2, selectionEnd + 2);
+    });
+  };
+
+  // Toggles "- " at the start of every selected line
+  const handleBullet = () => {
+    const el = bodyRef.current;
+    if (!el) return;
+    const { selectionStart, selectionEnd, value } = el;
+    const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+    const nextBreak = value.indexOf('\n', selectionEnd);
+    const lineEnd = nextBreak < 0 ? value.length : nextBreak;
+    const lines = value.slice(lineStart, lineEnd).split('\n');
+    const allBullets = lines.every(line => line.startsWith('- '));
+    const toggled = lines.map(line => allBullets ? line.slice(2) : `- ${line}`).join('\n');
+    onChange({ body: value.slice(0, lineStart) + toggled + value.slice(lineEnd) });
+    requestAnimationFrame(() => el.focus());
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-start">
+        <Input
+          label="Título"
+          value={section.title}
+          onChange={(e) => onChange({ title: e.target.value.toUpperCase() })}
+          icon={<Heading className="w-4 h-4" />}
+        />
+        <Input
+          label="Complemento"
+          value={section.note || ''}
+          onChange={(e) => onChange({ note: e.target.value || undefined })}
+          className="normal-case"
+        />
+        <button
+          onClick={onRemove}
+          className="p-3 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={handleBold}
+          title="Negrito"
+          className="p-1.5 text-gray-400 hover:text-indigo-400 hover:bg-indigo-400/10 rounded transition-colors"
+        >
+          <Bold className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleBullet}
+          title="Tópico"
+          className="p-1.5 text-gray-400 hover:text-indigo-400 hover:bg-indigo-400/10 rounded transition-colors"
+        >
+          <List className="w-4 h-4" />
+        </button>
+        <span className="text-[10px] text-gray-500 ml-2">**negrito** · linhas com "- " viram tópicos</span>
+      </div>
+      <textarea
+        ref={bodyRef}
+        value={section.body}
+        onChange={(e) => onChange({ body: e.target.value })}
+        placeholder="TEXTO DA SEÇÃO"
+        className={bodyClass}
+      />
+    </div>
+  );
+};
+
+export const PolicySettings: React.FC<PolicySettingsProps> = ({ profile, onChange }) => {
+  const [newTemplate, setNewTemplate] = useState('');
+  const sections = profile.policySections ?? DEFAULT_POLICY_SECTIONS;
+  const templates = profile.observationTemplates ?? DEFAULT_OBSERVATION_TEMPLATES;
+
+  const updateSections = (policySections: PolicySection[]) => onChange({ ...profile, policySections });
+
+  const updateSection = (id: string, changes: Partial<PolicySection>) => {
+    updateSections(sections.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const handleRemoveSection = (section: PolicySection) => {
+    if (!window.confirm(`Remover a seção "${section.title || 'SEM TÍTULO'}" da política?`)) return;
+    updateSections(sections.filter(s => s.id !== section.id));
+  };
+
+  const handleRestoreDefault = () => {
+    if (!window.confirm('Restaurar o texto padrão da política de trocas? As alterações feitas aqui serão perdidas.')) return;
+    updateSections(DEFAULT_POLICY_SECTIONS);
+  };
+
+  const handleAddTemplate = () => {
+    const template = newTemplate.trim().toUpperCase();
+    if (!template || templates.includes(template)) return;
+    onChange({ ...profile, observationTemplates: [...templates, template] });
+    setNewTemplate('');
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-indigo-500 rounded-full"></span>
+          Política e Observações
+        </h2>
+        <button
+          onClick={handleRestoreDefault}
+          className="flex items-center gap-1 px-3 py-1.5 text-gray-400 hover:text-indigo-400 hover:bg-indigo-400/10 rounded text-xs font-bold uppercase transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Texto padrão
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2">{POLICY_TITLE}</p>
+      <div className="space-y-4">
+        {sections.map(section => (
+          <PolicySectionEditor
+            key={section.id}
+            section={section}
+            onChange={(changes) => updateSection(section.id, changes)}
+            onRemove={() => handleRemoveSection(section)}
+          />
+        ))}
+        {sections.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-2">Sem política: o quadro não é impresso no comprovante.</p>
+        )}
+      </div>
+
+      <button
+        onClick={() => updateSections([...sections, createPolicySection()])}
+        className="w-full mt-4 flex items-center justify-center gap-2 py-2 border border-dashed border-gray-600 hover:border-indigo-500 text-gray-400 hover:text-indigo-400 rounded-lg text-xs font-bold uppercase transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Adicionar seção
+      </button>
+
+      {/* Same markup the receipt uses, so managers see the result while editing */}
+      {sections.length > 0 && (
+        <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 mt-4 space-y-2">
+          {sections.map(section => (
+            <div key={section.id}>
+              {section.title && (
+                <p className="text-[10px] font-bold text-slate-700">{section.title} {section.note && <span className="font-normal text-slate-500">{section.note}</span>}</p>
+              )}
+              {parsePolicyText(section.body).map((line, i) => (
+                <p key={i} className={`text-[10px] text-slate-600 leading-tight mt-0.5 ${line.bullet ? 'pl-3' : 'pl-1'}`}>
+                  {line.bullet && '• '}
+                  {line.segments.map((segment, j) => segment.bold
+                    ? <strong key={j} className="text-slate-700">{segment.text}</strong>
+                    : <span key={j}>{segment.text}</span>)}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6">
+        <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2 flex items-center gap-2">
+          <MessageSquareText className="w-4 h-4" />
+          Modelos de Observação
+        </p>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {templates.map(template => (
+            <span key={template} className="flex items-center gap-1 bg-gray-800 border border-gray-700 text-gray-300 text-xs rounded-full pl-3 pr-1 py-1">
+              {template}
+              <button
+                onClick={() => onChange({ ...profile, observationTemplates: templates.filter(t => t !== template) })}
+                className="p-0.5 text-gray-500 hover:text-red-400 rounded-full transition-colors"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {templates.length === 0 && <span className="text-xs text-gray-500">Nenhum modelo cadastrado.</span>}
+        </div>
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <Input
+            label="Novo modelo"
+            value={newTemplate}
+            onChange={(e) => setNewTemplate(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddTemplate(); }}
+            icon={<MessageSquareText className="w-4 h-4" />}
+          />
+          <button
+            onClick={handleAddTemplate}
+            disabled={!newTemplate.trim()}
+            className="px-4 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold uppercase transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CatalogItem } from '../types';
+import { PRODUCT_SIZES, getModelKey } from '../services/catalogService';
+
+interface ProductPickerProps {
+  catalog: CatalogItem[];
+  selectedName: string;
+  onSelect: (name: string) => void;
+}
+
+// Placeholder for variants that have no size/color in their name
+const NONE = '-';
+
+const selectClassName = "w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block p-3 uppercase cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const ProductPicker: React.FC<ProductPickerProps> = ({ catalog, selectedName, onSelect }) => {
+  const [modelKey, setModelKey] = useState("");
+  const [size, setSize] = useState("");
+  const [color, setColor] = useState("");
+
+  // Reset once the selected product was added to the cart
+  useEffect(() => {
+    if (!selectedName) {
+      setModelKey("");
+      setSize("");
+      setColor("");
+    }
+  }, [selectedName]);
+
+  // Models grouped by category: { "COLCHÃO": ["COLCHÃO AIRTECH SPRINGPOCKET 25CM", ...] }
+  const modelsByCategory = useMemo(() => {
+    const groups: Record<string, string[]> = {};
+    catalog.forEach(item => {
+      const category = item.category || 'OUTROS';
+      const key = getModelKey(item);
+      if (!groups[category]) groups[category] = [];
+      if (!groups[category].includes(key)) groups[category].push(key);
+    });
+    return groups;
+  }, [catalog]);
+
+  const variants = catalog.filter(item => getModelKey(item) === modelKey);
+  const sizes = Array.from(new Set<string>(variants.map(item => item.size || NONE)))
+    .sort((a, b) => PRODUCT_SIZES.indexOf(a) - PRODUCT_SIZES.indexOf(b));
+  const colors = Array.from(new Set<string>(
+    variants.filter(item => (item.size || NONE) === size).map(item => item.color || NONE)
+  )).sort();
+
+  // Auto-select when a step has a single option
+  useEffect(() => {
+    if (modelKey && sizes.length === 1 && size !== sizes[0]) setSize(sizes[0]);
+  }, [modelKey, sizes.join('|')]);
+
+  useEffect(() => {
+    if (size && colors.length === 1 && color !== colors[0]) setColor(colors[0]);
+  }, [size, colors.join('|')]);
+
+  useEffect(() => {
+    if (!modelKey || !size || !color) return;
+    const match = variants.find(item => (item.size || NONE) === size && (item.color || NONE) === color);
+    if (match && match.name !== selectedName) onSelect(match.name);
+  }, [modelKey, size, color]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <select
+        value={modelKey}
+        onChange={(e) => {
+          setModelKey(e.target.value);
+          setSize("");
+          setColor("");
+        }}
+        className={selectClassName}
+      >
+        <option value="" disabled>Modelo</option>
+        {Object.keys(modelsByCategory).sort().map(category => (
+          <optgroup key={category} label={category}>
+            {modelsByCategory[category].sort().map(key => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={size}
+          onChange={(e) => {
+            setSize(e.target.value);
+            setColor("");
+          }}
+          disabled={!modelKey}
+          className={selectClassName}
+        >
+          <option value="" disabled>Tamanho</option>
+          {sizes.map(s => (
+            <option key={s} value={s}>{s === NONE ? 'TAMANHO ÚNICO' : s}</option>
+          ))}
+        </select>
+        <select
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          disabled={!size}
+          className={selectClassName}
+        >
+          <option value="" disabled>Cor</option>
+          {colors.map(c => (
+            <option key={c} value={c}>{c === NONE ? 'COR ÚNICA' : c}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
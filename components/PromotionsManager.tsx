@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { PromotionRule } from '../types';
+import { DEFAULT_PROMOTIONS, isPromotionValidOn, validatePromotionRules } from '../services/promotionService';
+import { todayISODate } from '../services/dateService';
+import { TextArea } from './Input';
+import { Code, Save, X, Eye, EyeOff, RotateCcw } from 'lucide-react';
+
+interface PromotionsManagerProps {
+  rules: PromotionRule[];
+  onChange: (rules: PromotionRule[]) => void;
+}
+
+const describeReward = (rule: PromotionRule) => {
+  switch (rule.reward.type) {
+    case 'targetPrice':
+      return `Sai por ${rule.reward.price.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`;
+    case 'percentOff':
+      return `${rule.reward.percent}% de desconto`;
+    case 'freeItem':
+      return 'Brinde';
+  }
+};
+
+const formatDate = (isoDate?: string) =>
+  isoDate ? new Date(isoDate + 'T12:00:00').toLocaleDateString('pt-BR') : '';
+
+export const PromotionsManager: React.FC<PromotionsManagerProps> = ({ rules, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const today = todayISODate();
+
+  const startEdit = () => {
+    setDraft(JSON.stringify(rules, null, 2));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const saveDraft = () => {
+    try {
+      onChange(validatePromotionRules(JSON.parse(draft)));
+      setIsEditing(false);
+    } catch (err: any) {
+      setError(err.message || "JSON inválido.");
+    }
+  };
+
+  const toggleActive = (id: string) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, active: !rule.active } : rule)));
+  };
+
+  const restoreDefaults = () => {
+    if (window.confirm("Restaurar as promoções padrão? As regras atuais serão substituídas.")) {
+      onChange(DEFAULT_PROMOTIONS);
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-pink-500 rounded-full"></span>
+          Promoções
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={restoreDefaults}
+            title="Restaurar padrão"
+            className="p-2 text-gray-500 hover:text-gray-200 hover:bg-gray-800 rounded transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          {!isEditing && (
+            <button
+              onClick={startEdit}
+              className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs font-bold transition-colors"
+            >
+              <Code className="w-3 h-3" />
+              Editar Regras
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-3">
+          {error && (
+            <div className="p-3 rounded-lg text-xs border bg-red-900/20 border-red-500/50 text-red-300">{error}</div>
+          )}
+          <TextArea
+            label="Regras em JSON"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-[400px] font-mono text-xs normal-case"
+            spellCheck={false}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="flex items-center justify-center gap-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-bold transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Cancelar
+            </button>
+            <button
+              onClick={saveDraft}
+              className="flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              Salvar Regras
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {[...rules].sort((a, b) => b.priority - a.priority).map(rule => {
+            const valid = isPromotionValidOn(rule, today);
+            return (
+              <div key={rule.id} className={`bg-gray-800 p-3 rounded-lg border border-gray-700 ${valid ? '' : 'opacity-50'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-200 font-medium truncate">{rule.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {describeReward(rule)} · Prioridade {rule.priority}{rule.stackable ? ' · Acumulável' : ''}
+                    </p>
+                    {(rule.validFrom || rule.validUntil) && (
+                      <p className="text-[10px] text-gray-500">
+                        Vigência: {formatDate(rule.validFrom) || '...'} até {formatDate(rule.validUntil) || '...'}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => toggleActive(rule.id)}
+                    title={rule.active ? "Desativar" : "Ativar"}
+                    className="p-2 text-gray-500 hover:text-yellow-400 hover:bg-yellow-400/10 rounded transition-colors"
+                  >
+                    {rule.active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          {rules.length === 0 && (
+            <p className="text-center text-gray-500 text-sm py-4">Nenhuma promoção cadastrada.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
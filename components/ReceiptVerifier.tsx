@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ArchivedSale } from '../types';
+import { verifyReceiptPayload, VerificationResult, VerificationStatus } from '../services/verificationService';
+import { calculateTotals } from '../services/pricingService';
+import { formatCurrency } from '../services/formatService';
+import { getArchivedSaleDate } from '../services/archiveService';
+import { CameraScanner } from './BarcodeScanner';
+import { TextArea } from './Input';
+import { ScanLine, ShieldCheck, ShieldAlert, ShieldQuestion, Loader2 } from 'lucide-react';
+
+interface ReceiptVerifierProps {
+  sales: ArchivedSale[];
+  verificationKey?: string;
+}
+
+const STATUS_STYLES: Record<VerificationStatus, string> = {
+  'AUTÊNTICO': 'text-green-400 border-green-500/40 bg-green-500/10',
+  'ALTERADO': 'text-red-400 border-red-500/40 bg-red-500/10',
+  'NÃO ENCONTRADO': 'text-orange-400 border-orange-500/40 bg-orange-500/10',
+  'INVÁLIDO': 'text-gray-400 border-gray-600 bg-gray-800',
+};
+
+export const ReceiptVerifier: React.FC<ReceiptVerifierProps> = ({ sales, verificationKey }) => {
+  const [payload, setPayload] = useState('');
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (text: string = payload) => {
+    if (!text.trim() || !verificationKey) return;
+    setIsVerifying(true);
+    try {
+      setResult(await verifyReceiptPayload(text, sales, verificationKey));
+    } catch (error) {
+      // crypto.subtle only exists on HTTPS (or localhost)
+      console.error("Erro ao verificar comprovante:", error);
+      setResult({ status: 'INVÁLIDO', message: 'Não foi possível verificar o comprovante neste navegador. Abra o sistema por HTTPS e tente novamente.' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const sale = result?.sale;
+  const StatusIcon = result?.status === 'AUTÊNTICO' ? ShieldCheck : result?.status === 'ALTERADO' ? ShieldAlert : ShieldQuestion;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      {isCameraOpen && (
+        <CameraScanner
+          title="Escanear QR de Verificação"
+          formats={['qr_code']}
+          onDetected={(code) => {
+            setIsCameraOpen(false);
+            setPayload(code);
+            handleVerify(code);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
+
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-green-500 rounded-full"></span>
+          Verificar Comprovante
+        </h2>
+      </div>
+
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-6 space-y-3">
+        <p className="text-sm text-gray-400">
+          Escaneie o QR "Verifique a autenticidade" do comprovante ou cole o conteúdo lido abaixo.
+        </p>
+        <TextArea
+          label="BCV1|CÓDIGO|TOTAL|DATA|ASSINATURA"
+          value={payload}
+          onChange={(e) => {
+            setPayload(e.target.value);
+            setResult(null);
+          }}
+          className="min-h-[70px] font-mono text-xs normal-case"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => setIsCameraOpen(true)}
+            className="flex items-center justify-center gap-2 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-bold transition-colors"
+          >
+            <ScanLine className="w-4 h-4" />
+            Escanear QR
+          </button>
+          <button
+            onClick={() => handleVerify()}
+            disabled={!payload.trim() || !verificationKey || isVerifying}
+            className="flex items-center justify-center gap-2 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold transition-colors"
+          >
+            {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+            Verificar
+          </button>
+        </div>
+        {!verificationKey && (
+          <p className="text-xs text-red-400">Chave de verificação não configurada nos dados da loja.</p>
+        )}
+      </div>
+
+      {result && (
+        <div className={`p-4 rounded-lg border ${STATUS_STYLES[result.status]}`}>
+          <p className="flex items-center gap-2 text-sm font-bold uppercase">
+            <StatusIcon className="w-5 h-5" />
+            {result.status}
+          </p>
+          <p className="text-xs mt-1">{result.message}</p>
+
+          {result.payload && (
+            <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+              <div>
+                <p className="text-[10px] text-gray-500 uppercase font-bold">Código no QR</p>
+                <p className="text-gray-200 font-mono">{result.payload.saleCode}</p>
+              </div>
+              <div>
+                <p className="text-[10px] text-gray-500 uppercase font-bold">Total no QR</p>
+                <p className="text-gray-200">{formatCurrency(result.payload.totalCents / 100)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] text-gray-500 uppercase font-bold">Data no QR</p>
+                <p className="text-gray-200">{new Date(result.payload.date + 'T12:00:00').toLocaleDateString('pt-BR')}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* The archived copy, to compare line by line with the paper the customer brought */}
+      {sale && (
+        <div className="bg-gray-800 p-3 rounded-lg border border-gray-700 mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs text-gray-400 uppercase font-bold tracking-wider">Venda arquivada</p>
+            <span className="text-[10px] text-gray-500">{new Date(getArchivedSaleDate(sale) + 'T12:00:00').toLocaleDateString('pt-BR')}</span>
+          </div>
+          <p className="text-sm text-gray-200 font-medium uppercase">{sale.receipt.name || 'CLIENTE'}</p>
+          <p className="text-xs text-gray-500 uppercase mb-2">{sale.receipt.cpf || 'SEM DOCUMENTO'} · {sale.receipt.salesperson || 'SEM VENDEDOR'}</p>
+          <div className="divide-y divide-gray-700">
+            {sale.receipt.products.map((p, i) => (
+              <div key={i} className="flex justify-between py-1.5 text-xs">
+                <span className="text-gray-300 truncate pr-2">{p.quantity}x {p.name}</span>
+                <span className="text-gray-200">{formatCurrency(p.price * p.quantity)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between pt-2 mt-1 border-t border-gray-700 text-sm font-bold">
+            <span className="text-gray-400">TOTAL</span>
+            <span className="text-green-400">{formatCurrency(calculateTotals(sale.receipt).total)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import { ArchivedSale, CatalogItem, PaymentMethod, Product, RefundMethod, ReturnLine, ReturnRecord } from '../types';
+import {
+  RETURN_REASONS, REFUND_METHODS, createReturnRecord, getProductsValue, getReturnableLines, getReturnLinesValue
+} from '../services/returnService';
+import { PAYMENT_METHODS } from '../services/paymentService';
+import { toCents } from '../services/pricingService';
+import { formatCurrency } from '../services/formatService';
+import { CategoryWarranties, getDefaultWarranty, withDefaultWarranty } from '../services/warrantyService';
+import { ProductPicker } from './ProductPicker';
+import { Input } from './Input';
+import { ArrowLeft, Minus, Plus, Trash2, Repeat, FileText } from 'lucide-react';
+
+interface ReturnExchangeProps {
+  sale: ArchivedSale;
+  catalog: CatalogItem[];
+  categoryWarranties: CategoryWarranties;
+  returns: ReturnRecord[];
+  salespeople: string[];
+  onConfirm: (record: ReturnRecord) => void;
+  onCancel: () => void;
+}
+
+const fieldClass = "w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block p-3 uppercase";
+
+export const ReturnExchange: React.FC<ReturnExchangeProps> = ({ sale, catalog, categoryWarranties, returns, salespeople, onConfirm, onCancel }) => {
+  const returnable = useMemo(() => getReturnableLines(sale, returns), [sale, returns]);
+
+  // Units coming back per line of the original sale
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState(RETURN_REASONS[0]);
+  const [details, setDetails] = useState("");
+  const [salesperson, setSalesperson] = useState(sale.receipt.salesperson);
+  const [exchangeItems, setExchangeItems] = useState<Product[]>([]);
+  const [selectedName, setSelectedName] = useState("");
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>(REFUND_METHODS[0]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('PIX');
+
+  const returnedLines: ReturnLine[] = returnable
+    .filter(line => (quantities[line.index] || 0) > 0)
+    .map(line => ({
+      index: line.index,
+      code: line.product.code,
+      name: line.product.name,
+      quantity: quantities[line.index],
+      unitValue: line.unitValue,
+    }));
+
+  const returnedValue = getReturnLinesValue(returnedLines);
+  const exchangeValue = getProductsValue(exchangeItems);
+  const difference = (toCents(exchangeValue) - toCents(returnedValue)) / 100;
+
+  const setLineQuantity = (index: number, quantity: number, available: number) => {
+    setQuantities(prev => ({ ...prev, [index]: Math.min(available, Math.max(0, quantity)) }));
+  };
+
+  // Exchange items always go at the current catalog price
+  const handleAddExchangeItem = () => {
+    const item = catalog.find(p => p.name === selectedName);
+    if (!item) return;
+    setExchangeItems(prev => {
+      const existing = prev.findIndex(p => p.name === item.name);
+      if (existing >= 0) return prev.map((p, i) => i === existing ? { ...p, quantity: p.quantity + 1 } : p);
+      return [...prev, withDefaultWarranty({ code: item.sku, name: item.name, price: item.price, quantity: 1 }, getDefaultWarranty(catalog, categoryWarranties, item.name))];
+    });
+    setSelectedName("");
+  };
+
+  const handleConfirm = () => {
+    if (returnedLines.length === 0) {
+      alert("Selecione ao menos um item devolvido pelo cliente.");
+      return;
+    }
+    if (!salesperson) {
+      alert("Informe o atendente responsável pela troca/devolução.");
+      return;
+    }
+    if (reason === 'OUTRO' && !details.trim()) {
+      alert("Descreva o motivo nos detalhes.");
+      return;
+    }
+
+    onConfirm(createReturnRecord(sale, returns, {
+      salesperson,
+      reason,
+      details: details.trim(),
+      returnedLines,
+      exchangeItems,
+      settlementMethod: difference > 0 ? paymentMethod : difference < 0 ? refundMethod : undefined,
+    }));
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-purple-500 rounded-full"></span>
+          Troca / Devolução
+        </h2>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          <ArrowLeft className="w-3 h-3" />
+          Voltar ao arquivo
+        </button>
+      </div>
+
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-6">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="text-[10px] font-mono text-yellow-400 border border-gray-700 rounded px-1">{sale.receipt.saleCode || 'S/ CÓDIGO'}</span>
+          <span className="text-[10px] text-gray-500">{sale.receipt.salesperson || 'SEM VENDEDOR'}</span>
+        </div>
+        <p className="text-sm text-gray-200 font-medium uppercase truncate">{sale.receipt.name || 'CLIENTE'}</p>
+        <p className="text-xs text-gray-500 uppercase">{sale.receipt.cpf || 'SEM DOCUMENTO'}</p>
+      </div>
+
+      <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2">Itens que voltam</p>
+      <div className="space-y-2 mb-6">
+        {returnable.map(line => {
+          const quantity = quantities[line.index] || 0;
+          return (
+            <div key={line.index} className={`bg-gray-800 p-3 rounded-lg border ${quantity > 0 ? 'border-purple-500/60' : 'border-gray-700'}`}>
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-200 uppercase truncate">{line.product.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatCurrency(line.unitValue)} pago por unidade · {line.available} de {line.product.quantity} disponível(is)
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setLineQuantity(line.index, quantity - 1, line.available)}
+                    className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+                  >
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="w-8 text-center text-sm font-bold text-white">{quantity}</span>
+                  <button
+                    onClick={() => setLineQuantity(line.index, quantity + 1, line.available)}
+                    className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {returnable.length === 0 && (
+          <p className="text-center text-gray-500 text-sm py-4">Todos os itens desta venda já foram devolvidos.</p>
+        )}
+      </div>
+
+      <div className="space-y-3 mb-6">
+        <select value={reason} onChange={(e) => setReason(e.target.value)} className={`${fieldClass} cursor-pointer`}>
+          {RETURN_REASONS.map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <Input
+          label="Detalhes"
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          icon={<FileText className="w-4 h-4" />}
+        />
+        <select value={salesperson} onChange={(e) => setSalesperson(e.target.value)} className={`${fieldClass} cursor-pointer`}>
+          <option value="">Atendente responsável</option>
+          {salespeople.map(person => <option key={person} value={person}>{person}</option>)}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2 flex items-center gap-2">
+        <Repeat className="w-4 h-4" />
+        Trocar por (opcional)
+      </p>
+      <div className="space-y-2 mb-6">
+        <ProductPicker catalog={catalog} selectedName={selectedName} onSelect={setSelectedName} />
+        <button
+          onClick={handleAddExchangeItem}
+          disabled={!selectedName}
+          className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-gray-600 hover:border-purple-500 text-gray-400 hover:text-purple-400 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold uppercase transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Adicionar item da troca
+        </button>
+        {exchangeItems.map((item, index) => (
+          <div key={item.name} className="flex items-center gap-3 bg-gray-800 p-3 rounded-lg border border-gray-700">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-200 uppercase truncate">{item.name}</p>
+              <p className="text-xs text-gray-500">{item.quantity}x {formatCurrency(item.price)}</p>
+            </div>
+            <button
+              onClick={() => setExchangeItems(prev => prev.filter((_, i) => i !== index))}
+              className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 space-y-2">
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>Crédito dos itens devolvidos</span>
+          <span className="font-bold text-gray-200">{formatCurrency(returnedValue)}</span>
+        </div>
+        {exchangeItems.length > 0 && (
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Itens da troca</span>
+            <span className="font-bold text-gray-200">{formatCurrency(exchangeValue)}</span>
+          </div>
+        )}
+        {difference > 0 ? (
+          <div className="grid grid-cols-2 gap-2 items-center pt-2 border-t border-gray-700">
+            <span className="text-xs font-bold text-yellow-400">Cliente paga {formatCurrency(difference)}</span>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+              className="w-full bg-gray-800 border-2 border-gray-600 text-gray-100 text-xs rounded px-2 py-1.5 uppercase cursor-pointer"
+            >
+              {PAYMENT_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+            </select>
+          </div>
+        ) : difference < 0 ? (
+          <div className="grid grid-cols-2 gap-2 items-center pt-2 border-t border-gray-700">
+            <span className="text-xs font-bold text-blue-400">Restituir {formatCurrency(-difference)}</span>
+            <select
+              value={refundMethod}
+              onChange={(e) => setRefundMethod(e.target.value as RefundMethod)}
+              className="w-full bg-gray-800 border-2 border-gray-600 text-gray-100 text-xs rounded px-2 py-1.5 uppercase cursor-pointer"
+            >
+              {REFUND_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+            </select>
+          </div>
+        ) : returnedLines.length > 0 && (
+          <p className="text-xs font-bold text-green-400 pt-2 border-t border-gray-700">Sem diferença a acertar</p>
+        )}
+      </div>
+
+      <button
+        onClick={handleConfirm}
+        disabled={returnedLines.length === 0}
+        className="w-full mt-6 flex items-center justify-center gap-2 py-3 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-bold transition-colors"
+      >
+        <FileText className="w-4 h-4" />
+        Registrar e Gerar Comprovante
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { ArchivedSale, Payment, PaymentMethod, ReturnRecord } from '../types';
+import { ArchiveFilters, EMPTY_ARCHIVE_FILTERS, getArchivedSaleDate, searchArchive } from '../services/archiveService';
+import { calculateTotals } from '../services/pricingService';
+import { getPaymentStatus, PAYMENT_METHODS } from '../services/paymentService';
+import { isQuote, isQuoteExpired } from '../services/quoteService';
+import { formatCurrency, parsePriceInput } from '../services/formatService';
+import { getReturnsForSale, getReturnType } from '../services/returnService';
+import { isUnsigned } from '../services/signatureService';
+import { Input } from './Input';
+import { Search, Calendar, FolderOpen, Download, RotateCcw, Wallet, CheckCircle2, FileText, Repeat, ShieldCheck } from 'lucide-react';
+
+interface SalesArchiveProps {
+  sales: ArchivedSale[];
+  salespeople: string[];
+  onReopen: (sale: ArchivedSale) => void;
+  onReissue: (sale: ArchivedSale) => void;
+  onReceivePayment: (sale: ArchivedSale, payment: Payment) => void;
+  onConvertQuote: (sale: ArchivedSale) => void;
+  returns: ReturnRecord[];
+  onStartReturn: (sale: ArchivedSale) => void;
+  onReissueReturn: (record: ReturnRecord, sale: ArchivedSale) => void;
+  onPrintWarranty: (sale: ArchivedSale) => void;
+}
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate + 'T12:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+export const SalesArchive: React.FC<SalesArchiveProps> = ({ sales, salespeople, onReopen, onReissue, onReceivePayment, onConvertQuote, returns, onStartReturn, onReissueReturn, onPrintWarranty }) => {
+  const [filters, setFilters] = useState<ArchiveFilters>(EMPTY_ARCHIVE_FILTERS);
+
+  // Later payment being recorded (one sale at a time)
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [receiveMethod, setReceiveMethod] = useState<PaymentMethod>('PIX');
+  const [receiveAmount, setReceiveAmount] = useState("");
+
+  const startReceiving = (sale: ArchivedSale, balanceDue: number) => {
+    setReceivingId(sale.id);
+    setReceiveMethod('PIX');
+    setReceiveAmount(balanceDue.toFixed(2).replace('.', ','));
+  };
+
+  const handleConfirmReceive = (sale: ArchivedSale, balanceDue: number) => {
+    const amount = parsePriceInput(receiveAmount);
+    if (amount <= 0) return;
+    if (amount > balanceDue && !window.confirm(`O valor informado é maior que o saldo de ${formatCurrency(balanceDue)}. Registrar mesmo assim?`)) return;
+    onReceivePayment(sale, { method: receiveMethod, amount });
+    setReceivingId(null);
+  };
+
+  const results = searchArchive(sales, filters);
+
+  const updateFilter = (field: keyof ArchiveFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-orange-500 rounded-full"></span>
+          Arquivo de Vendas
+        </h2>
+        <span className="text-xs text-gray-500 uppercase tracking-wider">{sales.length} comprovantes</span>
+      </div>
+
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-6 space-y-3">
+        <Input
+          label="Cliente, CPF ou Código da Venda"
+          value={filters.text}
+          onChange={(e) => updateFilter('text', e.target.value)}
+          icon={<Search className="w-4 h-4" />}
+          autoComplete="off"
+        />
+        <select
+          value={filters.documentType}
+          onChange={(e) => updateFilter('documentType', e.target.value)}
+          className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block p-3 uppercase cursor-pointer"
+        >
+          <option value="">Vendas e orçamentos</option>
+          <option value="VENDA">Somente vendas</option>
+          <option value="ORÇAMENTO">Somente orçamentos</option>
+        </select>
+        <select
+          value={filters.salesperson}
+          onChange={(e) => updateFilter('salesperson', e.target.value)}
+          className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg focus:ring-2 focus:ring-blue-500/20 block p-3 uppercase cursor-pointer"
+        >
+          <option value="">Todos os vendedores</option>
+          {salespeople.map(person => (
+            <option key={person} value={person}>{person}</option>
+          ))}
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            label="De"
+            type="date"
+            value={filters.dateFrom}
+            onChange={(e) => updateFilter('dateFrom', e.target.value)}
+            icon={<Calendar className="w-4 h-4" />}
+          />
+          <Input
+            label="Até"
+            type="date"
+            value={filters.dateTo}
+            onChange={(e) => updateFilter('dateTo', e.target.value)}
+            icon={<Calendar className="w-4 h-4" />}
+          />
+        </div>
+        <button
+          onClick={() => setFilters(EMPTY_ARCHIVE_FILTERS)}
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Limpar filtros
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {results.map(sale => {
+          const total = calculateTotals(sale.receipt).total;
+          const quote = isQuote(sale.receipt);
+          const status = quote ? null : getPaymentStatus(sale.receipt.payments, total);
+          const saleReturns = quote ? [] : getReturnsForSale(returns, sale.id);
+          return (
+          <div key={sale.id} className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-[10px] font-mono text-yellow-400 border border-gray-700 rounded px-1">{sale.receipt.saleCode || 'S/ CÓDIGO'}</span>
+                  <span className="text-[10px] text-gray-500">{formatDate(getArchivedSaleDate(sale))}</span>
+                  {quote && (
+                    <span className={`text-[10px] font-bold rounded px-1 border ${
+                      sale.receipt.convertedAt ? 'text-green-400 border-green-500/40' : isQuoteExpired(sale.receipt) ? 'text-red-400 border-red-500/40' : 'text-orange-400 border-orange-500/40'
+                    }`}>
+                      {sale.receipt.convertedAt ? 'ORÇAMENTO CONVERTIDO' : isQuoteExpired(sale.receipt) ? 'ORÇAMENTO VENCIDO' : 'ORÇAMENTO'}
+                    </span>
+                  )}
+                  {isUnsigned(sale.receipt) && (
+                    <span className="text-[10px] font-bold text-orange-400 border border-orange-500/40 rounded px-1">NÃO ASSINADO</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-200 truncate font-medium uppercase">{sale.receipt.name || 'CLIENTE'}</p>
+                <p className="text-xs text-gray-500 uppercase">
+                  {sale.receipt.cpf || 'SEM DOCUMENTO'} · {sale.receipt.salesperson || 'SEM VENDEDOR'}
+                </p>
+                <div className="flex items-center gap-2 mt-1">
+                  <p className="text-xs text-green-400 font-bold">{formatCurrency(total)}</p>
+                  {status && (status.settled ? (
+                    <span className="flex items-center gap-1 text-[10px] font-bold text-green-400 border border-green-500/40 rounded px-1">
+                      <CheckCircle2 className="w-3 h-3" />
+                      QUITADO
+                    </span>
+                  ) : (
+                    <span className="text-[10px] font-bold text-yellow-400 border border-yellow-500/40 rounded px-1">
+                      SALDO {formatCurrency(status.balanceDue)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-col gap-1">
+                <button
+                  onClick={() => onReopen(sale)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/40 text-blue-400 rounded text-xs font-bold transition-colors"
+                >
+                  <FolderOpen className="w-3 h-3" />
+                  Reabrir
+                </button>
+                <button
+                  onClick={() => onReissue(sale)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs font-bold transition-colors"
+                >
+                  <Download className="w-3 h-3" />
+                  2ª Via
+                </button>
+                {quote && (
+                  <button
+                    onClick={() => onConvertQuote(sale)}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-green-600/20 hover:bg-green-600/40 text-green-400 rounded text-xs font-bold transition-colors"
+                  >
+                    <FileText className="w-3 h-3" />
+                    Converter
+                  </button>
+                )}
+                {!quote && (
+                  <button
+                    onClick={() => onPrintWarranty(sale)}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/40 text-emerald-400 rounded text-xs font-bold transition-colors"
+                  >
+                    <ShieldCheck className="w-3 h-3" />
+                    Garantia
+                  </button>
+                )}
+                {!quote && (
+                  <button
+                    onClick={() => onStartReturn(sale)}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-purple-600/20 hover:bg-purple-600/40 text-purple-400 rounded text-xs font-bold transition-colors"
+                  >
+                    <Repeat className="w-3 h-3" />
+                    Troca/Dev.
+                  </button>
+                )}
+                {status && !status.settled && (
+                  <button
+                    onClick={() => startReceiving(sale, status.balanceDue)}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-yellow-600/20 hover:bg-yellow-600/40 text-yellow-400 rounded text-xs font-bold transition-colors"
+                  >
+                    <Wallet className="w-3 h-3" />
+                    Receber
+                  </button>
+                )}
+              </div>
+            </div>
+            {saleReturns.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-gray-700 space-y-1">
+                {saleReturns.map(record => (
+                  <button
+                    key={record.id}
+                    onClick={() => onReissueReturn(record, sale)}
+                    className="w-full flex items-center justify-between gap-2 text-[10px] text-purple-300 hover:text-purple-200 transition-colors"
+                  >
+                    <span className="flex items-center gap-1 font-bold">
+                      <Download className="w-3 h-3" />
+                      {getReturnType(record)} {record.code}
+                    </span>
+                    <span className="text-gray-500">{new Date(record.createdAt).toLocaleDateString('pt-BR')} · {record.reason}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {status && receivingId === sale.id && (
+              <div className="mt-3 pt-3 border-t border-gray-700 grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+                <select
+                  value={receiveMethod}
+                  onChange={(e) => setReceiveMethod(e.target.value as PaymentMethod)}
+                  className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5 uppercase cursor-pointer"
+                >
+                  {PAYMENT_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                </select>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={receiveAmount}
+                  onChange={(e) => setReceiveAmount(e.target.value)}
+                  className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-xs rounded px-2 py-1.5"
+                />
+                <button
+                  onClick={() => handleConfirmReceive(sale, status.balanceDue)}
+                  className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded text-xs font-bold transition-colors"
+                >
+                  Registrar
+                </button>
+                <button
+                  onClick={() => setReceivingId(null)}
+                  className="px-2 py-1.5 text-gray-500 hover:text-gray-300 text-xs transition-colors"
+                >
+                  Cancelar
+                </button>
+              </div>
+            )}
+          </div>
+          );
+        })}
+        {results.length === 0 && (
+          <p className="text-center text-gray-500 text-sm py-4">
+            {sales.length === 0 ? 'Nenhum comprovante emitido ainda.' : 'Nenhuma venda encontrada.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
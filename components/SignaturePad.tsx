@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReceiptSignatures, Signature } from '../types';
+import { createSignature, formatSignedAt, SignatureRole, SIGNATURE_LABELS, UNSIGNED_LABEL } from '../services/signatureService';
+import { Eraser, Check, PenLine, RotateCcw, AlertTriangle } from 'lucide-react';
+
+// Canvas resolution; the element is scaled by CSS, so strokes are mapped back to these units
+const PAD_WIDTH = 600;
+const PAD_HEIGHT = 200;
+// Stored image: half the pad, as JPEG over white, so every archived sale keeps two small images
+// (a few KB each) instead of full-size PNGs that fill the browser storage
+const EXPORT_WIDTH = 300;
+const EXPORT_HEIGHT = 100;
+const EXPORT_QUALITY = 0.7;
+
+const exportSignatureImage = (canvas: HTMLCanvasElement) => {
+  const output = document.createElement('canvas');
+  output.width = EXPORT_WIDTH;
+  output.height = EXPORT_HEIGHT;
+  const ctx = output.getContext('2d');
+  if (!ctx) return canvas.toDataURL('image/png');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, EXPORT_WIDTH, EXPORT_HEIGHT);
+  ctx.drawImage(canvas, 0, 0, EXPORT_WIDTH, EXPORT_HEIGHT);
+  return output.toDataURL('image/jpeg', EXPORT_QUALITY);
+};
+
+interface SignaturePadProps {
+  label: string;
+  signer: string;
+  onConfirm: (signature: Signature) => void;
+  onCancel: () => void;
+}
+
+// Touch/mouse/pen drawing area; pointer events cover all three
+export const SignaturePad: React.FC<SignaturePadProps> = ({ label, signer, onConfirm, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#1e3a8a';
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (PAD_WIDTH / rect.width),
+      y: (e.clientY - rect.top) * (PAD_HEIGHT / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    // A tap leaves a dot
+    ctx.lineTo(x + 0.1, y + 0.1);
+    ctx.stroke();
+    setIsEmpty(false);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    setIsEmpty(true);
+  };
+
+  const handleConfirm = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || isEmpty) return;
+    onConfirm(createSignature(exportSignatureImage(canvas), signer));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400 uppercase font-bold tracking-wider">{label}{signer ? ` · ${signer}` : ''}</p>
+      <canvas
+        ref={canvasRef}
+        width={PAD_WIDTH}
+        height={PAD_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full aspect-[3/1] bg-white rounded-lg border-2 border-dashed border-gray-500 cursor-crosshair touch-none"
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={onCancel}
+          className="py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg text-xs font-bold uppercase transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={isEmpty}
+          className="flex items-center justify-center gap-1 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 rounded-lg text-xs font-bold uppercase transition-colors"
+        >
+          <Eraser className="w-4 h-4" />
+          Limpar
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={isEmpty}
+          className="flex items-center justify-center gap-1 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold uppercase transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          Confirmar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface SignaturesEditorProps {
+  signatures?: ReceiptSignatures;
+  customerName: string;
+  salesperson: string;
+  onChange: (signatures: ReceiptSignatures | undefined) => void;
+}
+
+// Customer and salesperson signatures of the receipt, one pad open at a time
+export const SignaturesEditor: React.FC<SignaturesEditorProps> = ({ signatures, customerName, salesperson, onChange }) => {
+  const [signing, setSigning] = useState<SignatureRole | null>(null);
+  const signerOf = (role: SignatureRole) => role === 'customer' ? customerName : salesperson;
+
+  const update = (role: SignatureRole, signature: Signature | undefined) => {
+    const next = { ...signatures, [role]: signature };
+    onChange(next.customer || next.salesperson ? next : undefined);
+  };
+
+  const handleRemove = (role: SignatureRole) => {
+    if (!window.confirm(`Apagar a ${SIGNATURE_LABELS[role].toLowerCase()}?`)) return;
+    update(role, undefined);
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-blue-500 rounded-full"></span>
+          Assinaturas
+        </h2>
+        {!signatures?.customer && (
+          <span className="flex items-center gap-1 text-xs text-orange-400 uppercase tracking-wider">
+            <AlertTriangle className="w-3 h-3" />
+            {UNSIGNED_LABEL}
+          </span>
+        )}
+      </div>
+
+      {signing ? (
+        <SignaturePad
+          key={signing}
+          label={SIGNATURE_LABELS[signing]}
+          signer={signerOf(signing)}
+          onConfirm={(signature) => {
+            update(signing, signature);
+            setSigning(null);
+          }}
+          onCancel={() => setSigning(null)}
+        />
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {(Object.keys(SIGNATURE_LABELS) as SignatureRole[]).map(role => {
+            const signature = signatures?.[role];
+            return (
+              <div key={role} className="bg-gray-800 p-3 rounded-lg border border-gray-700 flex flex-col gap-2">
+                <p className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">{SIGNATURE_LABELS[role]}</p>
+                {signature ? (
+                  <>
+                    <img src={signature.image} alt={SIGNATURE_LABELS[role]} className="w-full aspect-[3/1] bg-white rounded object-contain" />
+                    <p className="text-[10px] text-gray-500">{signature.signer || '-'} · {formatSignedAt(signature)}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => setSigning(role)}
+                        className="flex items-center justify-center gap-1 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-[10px] font-bold uppercase transition-colors"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Refazer
+                      </button>
+                      <button
+                        onClick={() => handleRemove(role)}
+                        className="py-1.5 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded text-[10px] font-bold uppercase transition-colors"
+                      >
+                        Apagar
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setSigning(role)}
+                    className="flex-1 flex flex-col items-center justify-center gap-1 py-4 border border-dashed border-gray-600 hover:border-blue-500 text-gray-400 hover:text-blue-400 rounded-lg text-xs font-bold uppercase transition-colors"
+                  >
+                    <PenLine className="w-5 h-5" />
+                    Coletar assinatura
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React from 'react';
+import { PixKeyType, SaleCodePattern, StoreBranch, StoreProfile } from '../types';
+import { createBranch, formatBranchAddress } from '../services/storeService';
+import { generateVerificationKey } from '../services/verificationService';
+import { guessPixKeyType, PIX_KEY_TYPES } from '../services/pixService';
+import { MAX_SALE_CODE_DIGITS, MIN_SALE_CODE_DIGITS, formatSaleCode, getBranchSaleCodePattern } from '../services/saleCodeService';
+import { maskDocument } from '../services/documentService';
+import { Input } from './Input';
+import { Building2, Plus, Trash2, Star, Instagram, Store, Tag, Hash, MapPin, Map, Mail, Phone, KeyRound, RefreshCw, QrCode, Barcode } from 'lucide-react';
+
+interface StoreSettingsProps {
+  profile: StoreProfile;
+  onChange: (profile: StoreProfile) => void;
+}
+
+export const StoreSettings: React.FC<StoreSettingsProps> = ({ profile, onChange }) => {
+  const update = (changes: Partial<StoreProfile>) => onChange({ ...profile, ...changes });
+
+  const updateBranch = (id: string, changes: Partial<StoreBranch>) => {
+    update({ branches: profile.branches.map(b => b.id === id ? { ...b, ...changes } : b) });
+  };
+
+  const handleAddBranch = () => {
+    update({ branches: [...profile.branches, createBranch()] });
+  };
+
+  // Sales already issued by a removed branch print with the default branch
+  const handleRemoveBranch = (branch: StoreBranch) => {
+    if (profile.branches.length <= 1) return;
+    if (!window.confirm(`Remover a filial "${branch.name || 'SEM NOME'}"? Vendas já emitidas por ela passam a mostrar a filial padrão.`)) return;
+    const branches = profile.branches.filter(b => b.id !== branch.id);
+    update({
+      branches,
+      defaultBranchId: profile.defaultBranchId === branch.id ? branches[0].id : profile.defaultBranchId,
+    });
+  };
+
+  const updateSaleCodePattern = (branch: StoreBranch, changes: Partial<SaleCodePattern>) => {
+    updateBranch(branch.id, { saleCodePattern: { ...getBranchSaleCodePattern(branch), ...changes } });
+  };
+
+  const pixKeyType = profile.pixKeyType ?? guessPixKeyType(profile.pixKey || '');
+
+  // Receipts printed with the old key will no longer verify
+  const handleRegenerateKey = () => {
+    if (!window.confirm('Gerar uma nova chave de verificação? Comprovantes já impressos deixarão de ser reconhecidos como autênticos.')) return;
+    update({ verificationKey: generateVerificationKey() });
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-indigo-500 rounded-full"></span>
+          Dados da Loja
+        </h2>
+        <span className="text-xs text-gray-500 uppercase tracking-wider">{profile.branches.length} filial(is)</span>
+      </div>
+
+      <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-6 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="Nome da Loja"
+            value={profile.name}
+            onChange={(e) => update({ name: e.target.value })}
+            icon={<Store className="w-4 h-4" />}
+          />
+          <Input
+            label="Slogan"
+            value={profile.tagline}
+            onChange={(e) => update({ tagline: e.target.value.toUpperCase() })}
+            icon={<Tag className="w-4 h-4" />}
+          />
+        </div>
+        <Input
+          label="Link do Instagram (QR Code)"
+          value={profile.instagramUrl}
+          onChange={(e) => update({ instagramUrl: e.target.value.trim() })}
+          icon={<Instagram className="w-4 h-4" />}
+          autoComplete="off"
+        />
+        <div className="grid grid-cols-[1fr_8rem] gap-3 items-center">
+          <Input
+            label="Chave PIX"
+            value={profile.pixKey || ''}
+            onChange={(e) => update({ pixKey: e.target.value || undefined })}
+            icon={<QrCode className="w-4 h-4" />}
+            className="normal-case"
+            autoComplete="off"
+          />
+          <select
+            value={pixKeyType}
+            onChange={(e) => update({ pixKeyType: e.target.value as PixKeyType })}
+            className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg p-3 cursor-pointer"
+          >
+            {PIX_KEY_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-[10px] text-gray-500">Celular com DDD (o +55 é incluído automaticamente). Em branco, os comprovantes saem sem o QR do PIX.</p>
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <Input
+            label="Chave de verificação (QR)"
+            value={profile.verificationKey || ''}
+            onChange={(e) => update({ verificationKey: e.target.value.trim() || undefined })}
+            icon={<KeyRound className="w-4 h-4" />}
+            className="normal-case font-mono text-xs"
+            autoComplete="off"
+          />
+          <button
+            onClick={handleRegenerateKey}
+            title="Gerar nova chave"
+            className="px-3 text-gray-400 hover:text-indigo-400 hover:bg-indigo-400/10 rounded-lg transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-500">Use a mesma chave em todos os computadores da loja para verificar comprovantes emitidos em qualquer um deles.</p>
+      </div>
+
+      <div className="space-y-4">
+        {profile.branches.map(branch => {
+          const isDefault = branch.id === profile.defaultBranchId;
+          const saleCodePattern = getBranchSaleCodePattern(branch);
+          return (
+            <div key={branch.id} className={`bg-gray-800 p-4 rounded-lg border ${isDefault ? 'border-indigo-500/60' : 'border-gray-700'} space-y-3`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-400 uppercase font-bold tracking-wider flex items-center gap-2 truncate">
+                  <Building2 className="w-4 h-4" />
+                  {branch.name || 'NOVA FILIAL'}
+                  {isDefault && <span className="text-[10px] text-indigo-400 border border-indigo-500/40 rounded px-1">PADRÃO</span>}
+                </p>
+                <div className="flex items-center gap-1">
+                  {!isDefault && (
+                    <button
+                      onClick={() => update({ defaultBranchId: branch.id })}
+                      title="Usar como padrão"
+                      className="p-2 text-gray-500 hover:text-indigo-400 hover:bg-indigo-400/10 rounded transition-colors"
+                    >
+                      <Star className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRemoveBranch(branch)}
+                    disabled={profile.branches.length <= 1}
+                    className="p-2 text-gray-500 hover:text-red-400 hover:bg-red-400/10 disabled:opacity-30 disabled:cursor-not-allowed rounded transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Nome da Filial"
+                  value={branch.name}
+                  onChange={(e) => updateBranch(branch.id, { name: e.target.value.toUpperCase() })}
+                  icon={<Building2 className="w-4 h-4" />}
+                />
+                <Input
+                  label="CNPJ"
+                  value={branch.cnpj}
+                  onChange={(e) => updateBranch(branch.id, { cnpj: maskDocument(e.target.value) })}
+                  icon={<Hash className="w-4 h-4" />}
+                  inputMode="numeric"
+                />
+              </div>
+              <Input
+                label="Rua e Número"
+                value={branch.street}
+                onChange={(e) => updateBranch(branch.id, { street: e.target.value.toUpperCase() })}
+                icon={<MapPin className="w-4 h-4" />}
+              />
+              <div className="grid grid-cols-[1fr_1fr_5rem] gap-3">
+                <Input
+                  label="Bairro"
+                  value={branch.neighborhood}
+                  onChange={(e) => updateBranch(branch.id, { neighborhood: e.target.value.toUpperCase() })}
+                  icon={<MapPin className="w-4 h-4" />}
+                />
+                <Input
+                  label="Cidade"
+                  value={branch.city}
+                  onChange={(e) => updateBranch(branch.id, { city: e.target.value.toUpperCase() })}
+                  icon={<Map className="w-4 h-4" />}
+                />
+                <Input
+                  label="UF"
+                  value={branch.state}
+                  onChange={(e) => updateBranch(branch.id, { state: e.target.value.toUpperCase().slice(0, 2) })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="E-mail"
+                  type="email"
+                  value={branch.email}
+                  onChange={(e) => updateBranch(branch.id, { email: e.target.value.trim() })}
+                  icon={<Mail className="w-4 h-4" />}
+                />
+                <Input
+                  label="Telefone"
+                  value={branch.phone}
+                  onChange={(e) => updateBranch(branch.id, { phone: e.target.value })}
+                  icon={<Phone className="w-4 h-4" />}
+                />
+              </div>
+              <div className="grid grid-cols-[1fr_auto_6rem] gap-3 items-center">
+                <Input
+                  label="Prefixo do código da venda"
+                  value={saleCodePattern.prefix}
+                  onChange={(e) => updateSaleCodePattern(branch, { prefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '') })}
+                  icon={<Barcode className="w-4 h-4" />}
+                />
+                <label className="flex items-center gap-2 text-xs text-gray-400 uppercase tracking-wider cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={saleCodePattern.includeYear}
+                    onChange={(e) => updateSaleCodePattern(branch, { includeYear: e.target.checked })}
+                    className="w-4 h-4 accent-indigo-500"
+                  />
+                  Ano
+                </label>
+                <select
+                  value={saleCodePattern.digits}
+                  onChange={(e) => updateSaleCodePattern(branch, { digits: parseInt(e.target.value) })}
+                  className="w-full bg-gray-800 border-2 border-gray-600 hover:border-gray-500 focus:border-blue-500 text-gray-100 text-sm rounded-lg p-3 cursor-pointer"
+                >
+                  {Array.from({ length: MAX_SALE_CODE_DIGITS - MIN_SALE_CODE_DIGITS + 1 }, (_, i) => MIN_SALE_CODE_DIGITS + i).map(n => (
+                    <option key={n} value={n}>{n} díg.</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-[10px] text-gray-500">
+                Vendas desta filial emitidas sem código recebem o próximo da sequência, ex.: <span className="font-mono text-yellow-400">{formatSaleCode(saleCodePattern, new Date().getFullYear(), 1)}</span>. A numeração recomeça a cada ano quando o ano faz parte do código.
+              </p>
+              <p className="text-[10px] text-gray-500 uppercase">{formatBranchAddress(branch) || 'Endereço não informado'}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={handleAddBranch}
+        className="w-full mt-4 flex items-center justify-center gap-2 py-2 border border-dashed border-gray-600 hover:border-indigo-500 text-gray-400 hover:text-indigo-400 rounded-lg text-xs font-bold uppercase transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Adicionar filial
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ArchivedSale, ReturnRecord } from '../types';
+import { lookupWarranties, formatWarrantyDate, getFactoryWarrantyLabel, WarrantyStatus } from '../services/warrantyService';
+import { CameraScanner, useKeyboardWedgeScanner } from './BarcodeScanner';
+import { Input } from './Input';
+import { Search, ScanLine, Download, ShieldCheck, ShieldOff } from 'lucide-react';
+
+interface WarrantyLookupProps {
+  sales: ArchivedSale[];
+  returns: ReturnRecord[];
+  onPrintCertificate: (sale: ArchivedSale, productIndex: number) => void;
+}
+
+const STATUS_STYLES: Record<WarrantyStatus, string> = {
+  'LOJA E FÁBRICA': 'text-green-400 border-green-500/40',
+  'LOJA': 'text-green-400 border-green-500/40',
+  'FÁBRICA': 'text-blue-400 border-blue-500/40',
+  'EXPIRADA': 'text-red-400 border-red-500/40',
+  'DEVOLVIDO': 'text-gray-400 border-gray-500/40',
+};
+
+const STATUS_LABELS: Record<WarrantyStatus, string> = {
+  'LOJA E FÁBRICA': 'NA GARANTIA (LOJA E FÁBRICA)',
+  'LOJA': 'NA GARANTIA DA LOJA',
+  'FÁBRICA': 'NA GARANTIA DE FÁBRICA',
+  'EXPIRADA': 'GARANTIA EXPIRADA',
+  'DEVOLVIDO': 'PRODUTO DEVOLVIDO',
+};
+
+export const WarrantyLookup: React.FC<WarrantyLookupProps> = ({ sales, returns, onPrintCertificate }) => {
+  const [query, setQuery] = useState("");
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+  // A barcode read anywhere on the screen becomes the search
+  useKeyboardWedgeScanner(setQuery);
+
+  const results = lookupWarranties(sales, returns, query);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-2xl p-6 shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+      {isCameraOpen && (
+        <CameraScanner
+          title="Escanear Produto ou Venda"
+          onDetected={(code) => {
+            setIsCameraOpen(false);
+            setQuery(code);
+          }}
+          onClose={() => setIsCameraOpen(false)}
+        />
+      )}
+
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-emerald-500 rounded-full"></span>
+          Consulta de Garantia
+        </h2>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        <Input
+          label="Código do Produto, Código da Venda ou CPF/CNPJ"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          icon={<Search className="w-4 h-4" />}
+          autoComplete="off"
+          data-scanner-field
+        />
+        <button
+          onClick={() => setIsCameraOpen(true)}
+          title="Escanear com a câmera"
+          className="self-end p-3.5 bg-gray-800 border-2 border-gray-600 hover:border-gray-500 text-gray-400 hover:text-blue-400 rounded-lg transition-colors"
+        >
+          <ScanLine className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {results.map(result => {
+          const r = result.sale.receipt;
+          const active = result.status !== 'EXPIRADA' && result.status !== 'DEVOLVIDO';
+          return (
+            <div key={`${result.sale.id}-${result.index}`} className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-[10px] font-mono text-yellow-400 border border-gray-700 rounded px-1">{r.saleCode || 'S/ CÓDIGO'}</span>
+                    <span className={`flex items-center gap-1 text-[10px] font-bold rounded px-1 border ${STATUS_STYLES[result.status]}`}>
+                      {active ? <ShieldCheck className="w-3 h-3" /> : <ShieldOff className="w-3 h-3" />}
+                      {STATUS_LABELS[result.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-200 font-medium uppercase truncate">{result.product.name}</p>
+                  <p className="text-xs text-gray-500 uppercase">
+                    {result.product.code || 'SEM CÓDIGO'} · {r.name || 'CLIENTE'} · {r.cpf || 'SEM DOCUMENTO'}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Compra {formatWarrantyDate(result.dates.purchaseDate)} · Loja até {formatWarrantyDate(result.dates.storeExpiry)}
+                    {' · '}
+                    {result.dates.factoryExpiry
+                      ? `Fábrica (${getFactoryWarrantyLabel(result.product)}) até ${formatWarrantyDate(result.dates.factoryExpiry)}`
+                      : 'Fábrica não informada'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onPrintCertificate(result.sale, result.index)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/40 text-emerald-400 rounded text-xs font-bold transition-colors"
+                >
+                  <Download className="w-3 h-3" />
+                  Certificado
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {query.trim() && results.length === 0 && (
+          <p className="text-center text-gray-500 text-sm py-4">Nenhum produto vendido encontrado para esta busca.</p>
+        )}
+        {!query.trim() && (
+          <p className="text-center text-gray-500 text-sm py-4">Escaneie ou digite um código ou o CPF do cliente.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { ArchivedSale, DeliveryStatus, Payment, ReceiptData, ReceiptDocumentType } from '../types';
+import { summarizePayments } from './paymentService';
+
+const ARCHIVE_STORAGE_KEY = 'belconfort_sales_archive';
+
+export interface ArchiveFilters {
+  text: string; // Matches client name, CPF/CNPJ or sale code
+  salesperson: string;
+  dateFrom: string; // yyyy-mm-dd (inclusive)
+  dateTo: string; // yyyy-mm-dd (inclusive)
+  documentType: '' | ReceiptDocumentType;
+}
+
+export const EMPTY_ARCHIVE_FILTERS: ArchiveFilters = {
+  text: '',
+  salesperson: '',
+  dateFrom: '',
+  dateTo: '',
+  documentType: '',
+};
+
+export const loadArchive = (): ArchivedSale[] => {
+  try {
+    const saved = localStorage.getItem(ARCHIVE_STORAGE_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error("Failed to load sales archive", error);
+  }
+  return [];
+};
+
+export const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// The archive is the largest thing kept in localStorage. Returns false when the browser quota
+// is full: the sales stay in memory and the caller warns the user.
+export const saveArchive = (sales: ArchivedSale[]): boolean => {
+  try {
+    localStorage.setItem(ARCHIVE_STORAGE_KEY, JSON.stringify(sales));
+    return true;
+  } catch (error) {
+    if (!isQuotaExceeded(error)) throw error;
+    console.error("Sales archive exceeds the storage quota", error);
+    return false;
+  }
+};
+
+const generateArchiveId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Inserts the receipt in the archive, or updates it when it was already issued before.
+// The original issue timestamp is kept so a reprint matches the first PDF.
+export const upsertArchivedSale = (sales: ArchivedSale[], receipt: ReceiptData) => {
+  const now = new Date().toISOString();
+  const id = receipt.archiveId || generateArchiveId();
+  const existing = sales.find(s => s.id === id);
+  const issuedAt = receipt.issuedAt || existing?.issuedAt || now;
+
+  const sale: ArchivedSale = {
+    id,
+    issuedAt,
+    updatedAt: now,
+    receipt: { ...receipt, archiveId: id, issuedAt },
+  };
+
+  const updatedSales = existing
+    ? sales.map(s => (s.id === id ? sale : s))
+    : [sale, ...sales];
+
+  return { sales: updatedSales, sale };
+};
+
+// Adds a payment received after the sale (e.g. balance paid on delivery) to an archived receipt
+export const recordArchivedPayment = (sales: ArchivedSale[], saleId: string, payment: Payment) => {
+  const existing = sales.find(s => s.id === saleId);
+  if (!existing) return { sales, sale: undefined };
+
+  const payments = [...(existing.receipt.payments || []), { ...payment, paidAt: payment.paidAt || new Date().toISOString() }];
+  const sale: ArchivedSale = {
+    ...existing,
+    updatedAt: new Date().toISOString(),
+    receipt: { ...existing.receipt, payments, paymentMethod: summarizePayments(payments) },
+  };
+
+  return { sales: sales.map(s => (s.id === saleId ? sale : s)), sale };
+};
+
+// Driver feedback from the route sheet (EM ROTA / ENTREGUE ...)
+export const updateArchivedDeliveryStatus = (sales: ArchivedSale[], saleId: string, status: DeliveryStatus) =>
+  sales.map(s => s.id === saleId && s.receipt.delivery
+    ? { ...s, updatedAt: new Date().toISOString(), receipt: { ...s.receipt, delivery: { ...s.receipt.delivery, status } } }
+    : s
+  );
+
+const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// Sale date as yyyy-mm-dd, falling back to the issue date when the form date was left blank
+export const getArchivedSaleDate = (sale: ArchivedSale) =>
+  sale.receipt.date || sale.issuedAt.slice(0, 10);
+
+export const searchArchive = (sales: ArchivedSale[], filters: ArchiveFilters): ArchivedSale[] => {
+  const text = normalizeText(filters.text);
+  const digits = onlyDigits(filters.text);
+
+  return sales
+    .filter(sale => {
+      const r = sale.receipt;
+
+      if (text) {
+        const matchesText =
+          normalizeText(r.name || '').includes(text) ||
+          normalizeText(r.saleCode || '').includes(text) ||
+          normalizeText(r.salesperson || '').includes(text) ||
+          (digits.length >= 3 && onlyDigits(r.cpf || '').includes(digits));
+        if (!matchesText) return false;
+      }
+
+      if (filters.salesperson && r.salesperson !== filters.salesperson) return false;
+      if (filters.documentType && (r.documentType || 'VENDA') !== filters.documentType) return false;
+
+      const saleDate = getArchivedSaleDate(sale);
+      if (filters.dateFrom && saleDate < filters.dateFrom) return false;
+      if (filters.dateTo && saleDate > filters.dateTo) return false;
+
+      return true;
+    })
+    .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+};
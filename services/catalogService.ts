@@ -0,0 +1,262 @@
+import { CatalogItem, PRODUCT_CATALOG, ProductAttributes, WarrantyTerm, WarrantyUnit } from '../types';
+import { parsePriceInput } from './formatService';
+
+const CATALOG_STORAGE_KEY = 'belconfort_catalog';
+const CSV_SEPARATOR = ';';
+const CSV_HEADER = ['NOME', 'PRECO', 'ATIVO', 'SKU', 'EAN', 'GARANTIA'];
+
+export const PRODUCT_SIZES = ['SOLTEIRO', 'SOLTEIRÃO', 'CASAL', 'QUEEN', 'KING', 'SUPER KING'];
+
+const HEIGHT_PATTERN = /^\d+(,\d+)?CM$/;
+const DENSITY_PATTERN = /^D\d{2}$/;
+const DIMENSIONS_PATTERN = /^\d+X\d+$/;
+
+// Splits a catalog name like "BASE BOX BILÚ 40CM QUEEN PRETO" into its parts:
+// CATEGORIA MODELO [DENSIDADE] ALTURA [TAMANHO] [MEDIDAS] COR
+export const parseCatalogName = (name: string): ProductAttributes => {
+  const tokens = name.toUpperCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return {};
+
+  const attributes: ProductAttributes = { category: tokens[0] };
+  const heightIndex = tokens.findIndex(t => HEIGHT_PATTERN.test(t));
+  let rest = heightIndex >= 0 ? tokens.slice(heightIndex + 1) : [];
+
+  const modelTokens = (heightIndex >= 0 ? tokens.slice(1, heightIndex) : tokens.slice(1))
+    .filter(t => {
+      if (DENSITY_PATTERN.test(t)) {
+        attributes.density = t;
+        return false;
+      }
+      return true;
+    });
+  if (heightIndex >= 0) attributes.height = tokens[heightIndex];
+
+  // Without a height the size can still close the name (e.g. "... CASAL")
+  if (heightIndex < 0) {
+    const sizeIndex = modelTokens.findIndex((t, i) =>
+      PRODUCT_SIZES.includes(t) || (t === 'SUPER' && modelTokens[i + 1] === 'KING'));
+    if (sizeIndex > 0) rest = modelTokens.splice(sizeIndex);
+  }
+  attributes.model = modelTokens.join(' ') || undefined;
+
+  if (rest[0] === 'SUPER' && rest[1] === 'KING') {
+    attributes.size = 'SUPER KING';
+    rest = rest.slice(2);
+  } else if (PRODUCT_SIZES.includes(rest[0])) {
+    attributes.size = rest[0];
+    rest = rest.slice(1);
+  }
+
+  // Drop measurements such as "52X78" or "123X71 | 164X71"
+  while (rest.length > 0 && (DIMENSIONS_PATTERN.test(rest[0]) || (rest[0] === '|' && DIMENSIONS_PATTERN.test(rest[1] || '')))) {
+    rest = rest.slice(1);
+  }
+  if (rest.length > 0) attributes.color = rest.join(' ');
+
+  return attributes;
+};
+
+// Fills structured attributes that are still missing, parsing them from the name
+export const withParsedAttributes = (item: CatalogItem): CatalogItem => {
+  const parsed = parseCatalogName(item.name);
+  return {
+    ...item,
+    category: item.category ?? parsed.category,
+    model: item.model ?? parsed.model,
+    height: item.height ?? parsed.height,
+    size: item.size ?? parsed.size,
+    density: item.density ?? parsed.density,
+    color: item.color ?? parsed.color,
+  };
+};
+
+// A renamed item gets its structured attributes parsed again from the new name
+export const renameCatalogItem = (item: CatalogItem, name: string): CatalogItem => ({
+  ...item,
+  name,
+  category: undefined,
+  model: undefined,
+  height: undefined,
+  size: undefined,
+  density: undefined,
+  color: undefined,
+  ...parseCatalogName(name),
+});
+
+// Attributes of a cart line: from the managed catalog when the product is known, otherwise parsed from its name
+export const getProductAttributes = (catalog: CatalogItem[], name: string): ProductAttributes =>
+  catalog.find(item => item.name === name) ?? parseCatalogName(name);
+
+// Groups catalog variants that only differ by size/color (e.g. every "COLCHÃO AIRTECH SPRINGPOCKET 30CM")
+export const getModelKey = (item: CatalogItem) =>
+  [item.category, item.model, item.density, item.height].filter(Boolean).join(' ');
+
+// --- SKU ---
+
+// 32-bit FNV-1a, so the seed catalog gets the same SKUs on every device
+const hashName = (name: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Gives a 6-digit SKU to every item that does not have one yet. Existing SKUs are never changed;
+// items without one reuse the SKU of the same name in `previous` (e.g. the catalog before a CSV import).
+export const assignSkus = (items: CatalogItem[], previous: CatalogItem[] = []): CatalogItem[] => {
+  const taken = new Set(items.map(item => item.sku).filter(Boolean));
+  const previousByName = new Map(previous.map(item => [item.name, item.sku]));
+
+  return items.map(item => {
+    if (item.sku) return item;
+
+    const inherited = previousByName.get(item.name);
+    if (inherited && !taken.has(inherited)) {
+      taken.add(inherited);
+      return { ...item, sku: inherited };
+    }
+
+    let candidate = 100000 + (hashName(item.name) % 900000);
+    while (taken.has(candidate.toString())) {
+      candidate = candidate >= 999999 ? 100000 : candidate + 1;
+    }
+    const sku = candidate.toString();
+    taken.add(sku);
+    return { ...item, sku };
+  });
+};
+
+const normalizeCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+// Maps a printed/scanned code (SKU or EAN) back to its catalog item
+export const findCatalogItemByCode = (catalog: CatalogItem[], code: string): CatalogItem | undefined => {
+  const wanted = normalizeCode(code);
+  if (!wanted) return undefined;
+  return catalog.find(item => item.sku === wanted) ??
+    catalog.find(item => item.ean && normalizeCode(item.ean) === wanted);
+};
+
+export const sortCatalog = (items: CatalogItem[]) =>
+  [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+export const isCatalogItemActive = (item: CatalogItem) => item.active !== false;
+
+export const loadCatalog = (): CatalogItem[] => {
+  try {
+    const saved = localStorage.getItem(CATALOG_STORAGE_KEY);
+    if (saved) {
+      return sortCatalog(assignSkus(JSON.parse(saved).map(withParsedAttributes)));
+    }
+  } catch (error) {
+    console.error("Failed to load catalog", error);
+  }
+  // First run: seed with the bundled catalog
+  return assignSkus(PRODUCT_CATALOG.map(item => withParsedAttributes({ ...item, active: true })));
+};
+
+export const saveCatalog = (items: CatalogItem[]) => {
+  localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(items));
+};
+
+// --- CSV ---
+
+const escapeCsvField = (value: string) =>
+  /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// "12 MESES" <-> { time: '12', unit: 'MESES' }
+const WARRANTY_PATTERN = /^(\d+)\s*(DIAS|MESES|ANOS)$/;
+
+const warrantyToCsv = (term?: WarrantyTerm) => term?.time ? `${term.time} ${term.unit}` : '';
+
+const parseCsvWarranty = (value: string): WarrantyTerm | undefined | null => {
+  const clean = value.trim().toUpperCase();
+  if (!clean) return undefined;
+  const match = clean.match(WARRANTY_PATTERN);
+  return match ? { time: match[1], unit: match[2] as WarrantyUnit } : null;
+};
+
+export const catalogToCSV = (items: CatalogItem[]): string => {
+  const rows = sortCatalog(items).map(item => [
+    escapeCsvField(item.name),
+    item.price.toFixed(2).replace('.', ','),
+    isCatalogItemActive(item) ? 'SIM' : 'NAO',
+    item.sku || '',
+    escapeCsvField(item.ean || ''),
+    warrantyToCsv(item.warranty),
+  ].join(CSV_SEPARATOR));
+  return [CSV_HEADER.join(CSV_SEPARATOR), ...rows].join('\n');
+};
+
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === CSV_SEPARATOR) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(f => f.trim());
+};
+
+// Parses a catalog CSV (NOME;PRECO;ATIVO;SKU;EAN;GARANTIA). Throws with a line number on invalid rows.
+export const parseCatalogCSV = (csv: string): CatalogItem[] => {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) throw new Error("O arquivo está vazio.");
+
+  const hasHeader = splitCsvLine(lines[0])[0].toUpperCase() === CSV_HEADER[0];
+  const items = new Map<string, CatalogItem>();
+  const skus = new Set<string>();
+
+  lines.slice(hasHeader ? 1 : 0).forEach((line, i) => {
+    const [rawName, rawPrice = '0', rawActive = 'SIM', rawSku = '', rawEan = '', rawWarranty = ''] = splitCsvLine(line);
+    const name = (rawName || '').toUpperCase().trim();
+    if (!name) {
+      throw new Error(`Linha ${i + (hasHeader ? 2 : 1)}: nome do produto em branco.`);
+    }
+    if (!/^[R$\s\d.,]*$/.test(rawPrice)) {
+      throw new Error(`Linha ${i + (hasHeader ? 2 : 1)}: preço inválido "${rawPrice}".`);
+    }
+    const warranty = parseCsvWarranty(rawWarranty);
+    if (warranty === null) {
+      throw new Error(`Linha ${i + (hasHeader ? 2 : 1)}: garantia inválida "${rawWarranty}" (use ex.: 12 MESES).`);
+    }
+    const active = !['NAO', 'NÃO', 'N', '0', 'FALSE', 'INATIVO'].includes(rawActive.toUpperCase());
+    const sku = normalizeCode(rawSku);
+    if (sku) {
+      if (skus.has(sku)) {
+        throw new Error(`Linha ${i + (hasHeader ? 2 : 1)}: SKU "${sku}" repetido.`);
+      }
+      skus.add(sku);
+    }
+    items.set(name, withParsedAttributes({
+      name,
+      price: parsePriceInput(rawPrice),
+      active,
+      sku: sku || undefined,
+      ean: rawEan.trim() || undefined,
+      warranty,
+    }));
+  });
+
+  return sortCatalog(Array.from(items.values()));
+};
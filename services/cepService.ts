@@ -0,0 +1,131 @@
+// CEP (postal code) masking and address lookup through pluggable resolvers
+
+export interface CepAddress {
+  cep: string;
+  street?: string;
+  neighborhood?: string;
+  city?: string;
+  state?: string;
+}
+
+export interface CepResolver {
+  name: string;
+  // Resolves to null when the CEP is unknown to this resolver
+  resolve: (cep: string) => Promise<CepAddress | null>;
+}
+
+const CEP_CACHE_STORAGE_KEY = 'belconfort_cep_cache';
+// Enough for the store's regular customers without growing localStorage forever
+const MAX_CACHED_CEPS = 500;
+
+const onlyDigits = (value: string) => (value || '').replace(/\D/g, '');
+
+export const maskCep = (value: string) =>
+  onlyDigits(value).slice(0, 8).replace(/^(\d{5})(\d)/, '$1-$2');
+
+export const isCompleteCep = (value: string) => onlyDigits(value).length === 8;
+
+// --- HTTP adapter (ViaCEP and compatible APIs: GET {baseUrl}/{cep}/json/) ---
+
+export const createViaCepResolver = (baseUrl: string = 'https://viacep.com.br/ws', timeoutMs: number = 5000): CepResolver => ({
+  name: 'viacep',
+  resolve: async (cep: string) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(`${baseUrl}/${onlyDigits(cep)}/json/`, { signal: controller.signal });
+      if (!response.ok) return null;
+      const json = await response.json();
+      if (json.erro) return null;
+      return {
+        cep: maskCep(json.cep || cep),
+        street: json.logradouro || undefined,
+        neighborhood: json.bairro || undefined,
+        city: json.localidade || undefined,
+        state: json.uf || undefined,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+});
+
+// --- Offline table (Belém metro area) ---
+
+interface CepRange {
+  from: string;
+  to: string;
+  city: string;
+  state: string;
+}
+
+// CEP ranges of the Região Metropolitana de Belém, so at least the city is filled without internet
+const BELEM_METRO_RANGES: CepRange[] = [
+  { from: '66000000', to: '66999999', city: 'BELÉM', state: 'PA' },
+  { from: '67000000', to: '67199999', city: 'ANANINDEUA', state: 'PA' },
+  { from: '67200000', to: '67299999', city: 'MARITUBA', state: 'PA' },
+  { from: '68740000', to: '68749999', city: 'CASTANHAL', state: 'PA' },
+  { from: '68790000', to: '68794999', city: 'SANTA IZABEL DO PARÁ', state: 'PA' },
+  { from: '68795000', to: '68797999', city: 'BENEVIDES', state: 'PA' },
+  { from: '68798000', to: '68799999', city: 'SANTA BÁRBARA DO PARÁ', state: 'PA' },
+];
+
+// Most recently resolved first. Older versions saved an object keyed by CEP.
+const loadCepCache = (): CepAddress[] => {
+  try {
+    const saved = localStorage.getItem(CEP_CACHE_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed : Object.values(parsed);
+    }
+  } catch (error) {
+    console.error("Erro ao carregar o cache de CEPs:", error);
+  }
+  return [];
+};
+
+// Remembers full addresses resolved online, so repeat customers are also filled offline.
+// Keeps the latest MAX_CACHED_CEPS; the cache is a convenience, so a failed write is only logged.
+export const cacheCepAddress = (address: CepAddress) => {
+  const digits = onlyDigits(address.cep);
+  const cache = [address, ...loadCepCache().filter(cached => onlyDigits(cached.cep) !== digits)].slice(0, MAX_CACHED_CEPS);
+  try {
+    localStorage.setItem(CEP_CACHE_STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Erro ao salvar o cache de CEPs:", error);
+  }
+};
+
+export const offlineBelemResolver: CepResolver = {
+  name: 'offline',
+  resolve: async (cep: string) => {
+    const digits = onlyDigits(cep);
+    const cached = loadCepCache().find(address => onlyDigits(address.cep) === digits);
+    if (cached) return cached;
+
+    // Without the cache only the city is known; street and neighborhood stay for the user to type
+    const range = BELEM_METRO_RANGES.find(r => digits >= r.from && digits <= r.to);
+    return range ? { cep: maskCep(digits), city: range.city, state: range.state } : null;
+  },
+};
+
+// Tries each resolver in order; network failures fall through to the next one
+export const createFallbackResolver = (resolvers: CepResolver[]): CepResolver => ({
+  name: resolvers.map(r => r.name).join('+'),
+  resolve: async (cep: string) => {
+    for (const resolver of resolvers) {
+      try {
+        const address = await resolver.resolve(cep);
+        if (address) {
+          if (resolver.name !== offlineBelemResolver.name && address.street) cacheCepAddress(address);
+          return address;
+        }
+      } catch (error) {
+        console.warn(`CEP resolver "${resolver.name}" failed`, error);
+      }
+    }
+    return null;
+  },
+});
+
+export const defaultCepResolver = createFallbackResolver([createViaCepResolver(), offlineBelemResolver]);
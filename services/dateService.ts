@@ -0,0 +1,7 @@
+// Calendar date helpers. Dates are kept as YYYY-MM-DD in the store's local time:
+// toISOString() is UTC and flips to the next day in the evening in Brazil.
+
+export const toISODate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const todayISODate = () => toISODate(new Date());
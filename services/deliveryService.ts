@@ -0,0 +1,137 @@
+import { ArchivedSale, DeliveryInfo, DeliveryStatus, Product, ReceiptData } from '../types';
+import { calculateTotals } from './pricingService';
+import { getPaymentStatus } from './paymentService';
+
+export const DELIVERY_TIME_WINDOWS = ['MANHÃ (08H - 12H)', 'TARDE (13H - 18H)', 'DIA TODO (08H - 18H)'];
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['AGENDADA', 'EM ROTA', 'ENTREGUE', 'CANCELADA'];
+
+export const createDelivery = (date: string = ''): DeliveryInfo => ({
+  date,
+  timeWindow: DELIVERY_TIME_WINDOWS[0],
+  fee: 0,
+  status: 'AGENDADA',
+  referencePoint: '',
+});
+
+// The catalog sells delivery itself as a R$ 0 line ("ENTREGAS SUPORTE DE ENTREGA"); it is not something to load
+export const isDeliveryServiceLine = (product: Product) => product.name.toUpperCase().startsWith('ENTREGA');
+
+export const getDeliveryItems = (products: Product[]) => products.filter(p => !isDeliveryServiceLine(p));
+
+export const formatDeliveryDate = (date: string) =>
+  date ? new Date(date + 'T12:00:00').toLocaleDateString('pt-BR', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' }).toUpperCase() : 'A AGENDAR';
+
+export interface BalanceToCollect {
+  amount: number;
+  paymentInformed: boolean; // False when the sale was issued without any payment recorded
+}
+
+// What the driver collects. With no payment recorded nothing is known to be paid, so it is the whole total.
+export const getBalanceToCollect = (receipt: ReceiptData): BalanceToCollect => {
+  const total = calculateTotals(receipt).total;
+  const status = getPaymentStatus(receipt.payments, total);
+  return status
+    ? { amount: status.balanceDue, paymentInformed: true }
+    : { amount: total, paymentInformed: false };
+};
+
+// Google Maps search link for the customer address (form button, route sheet and its PDF)
+export const getMapsUrl = (receipt: ReceiptData) => {
+  const { street, number, neighborhood, city, cep } = receipt;
+  if (!street && !city) return '';
+  const query = encodeURIComponent(`${street}, ${number} - ${neighborhood}, ${city}${cep ? `, ${cep}` : ''}`);
+  return `https://www.google.com/maps/search/?api=1&query=${query}`;
+};
+
+// --- Daily route sheet ---
+
+export interface RouteStop {
+  sale: ArchivedSale;
+  items: Product[];
+  balanceDue: number;
+  paymentInformed: boolean;
+  mapsUrl: string;
+}
+
+export interface RouteGroup {
+  city: string;
+  neighborhood: string;
+  stops: RouteStop[];
+}
+
+export interface LoadItem {
+  code?: string;
+  name: string;
+  quantity: number;
+}
+
+export interface DeliveryRoute {
+  date: string;
+  groups: RouteGroup[];
+  stopCount: number;
+  totalToCollect: number;
+  loadList: LoadItem[]; // Everything to put on the truck, merged across stops
+}
+
+const normalizePlace = (value: string) => (value || '').trim().toUpperCase();
+
+const windowOrder = (timeWindow: string) => {
+  const index = DELIVERY_TIME_WINDOWS.indexOf(timeWindow);
+  return index < 0 ? DELIVERY_TIME_WINDOWS.length : index;
+};
+
+// "A RECEBER: R$ 150,00" / "PAGO", flagging sales issued without any payment recorded
+export const formatStopBalance = (stop: RouteStop) => {
+  const amount = `A RECEBER: ${stop.balanceDue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`;
+  if (stop.paymentInformed) return stop.balanceDue > 0 ? amount : 'PAGO';
+  return `${amount} (PAGAMENTO NÃO INFORMADO)`;
+};
+
+// Deliveries of the day grouped by city / neighborhood so the driver covers one area at a time
+export const buildDeliveryRoute = (sales: ArchivedSale[], date: string): DeliveryRoute => {
+  const groupMap = new Map<string, RouteGroup>();
+
+  sales
+    .filter(sale => sale.receipt.documentType !== 'ORÇAMENTO')
+    .filter(sale => sale.receipt.delivery?.date === date && sale.receipt.delivery.status !== 'CANCELADA')
+    .forEach(sale => {
+      const city = normalizePlace(sale.receipt.city) || 'SEM CIDADE';
+      const neighborhood = normalizePlace(sale.receipt.neighborhood) || 'SEM BAIRRO';
+      const key = `${city}|${neighborhood}`;
+      const balance = getBalanceToCollect(sale.receipt);
+
+      if (!groupMap.has(key)) groupMap.set(key, { city, neighborhood, stops: [] });
+      groupMap.get(key)!.stops.push({
+        sale,
+        items: getDeliveryItems(sale.receipt.products),
+        balanceDue: balance.amount,
+        paymentInformed: balance.paymentInformed,
+        mapsUrl: getMapsUrl(sale.receipt),
+      });
+    });
+
+  const groups = Array.from(groupMap.values())
+    .sort((a, b) => a.city.localeCompare(b.city, 'pt-BR') || a.neighborhood.localeCompare(b.neighborhood, 'pt-BR'));
+  groups.forEach(group => group.stops.sort((a, b) =>
+    windowOrder(a.sale.receipt.delivery!.timeWindow) - windowOrder(b.sale.receipt.delivery!.timeWindow) ||
+    (a.sale.receipt.street || '').localeCompare(b.sale.receipt.street || '', 'pt-BR')
+  ));
+
+  const stops = groups.flatMap(group => group.stops);
+
+  const loadMap = new Map<string, LoadItem>();
+  stops.forEach(stop => stop.items.forEach(item => {
+    const key = item.code || item.name;
+    const existing = loadMap.get(key);
+    if (existing) existing.quantity += item.quantity;
+    else loadMap.set(key, { code: item.code, name: item.name, quantity: item.quantity });
+  }));
+
+  return {
+    date,
+    groups,
+    stopCount: stops.length,
+    totalToCollect: Math.round(stops.reduce((acc, stop) => acc + stop.balanceDue * 100, 0)) / 100,
+    loadList: Array.from(loadMap.values()).sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')),
+  };
+};
@@ -0,0 +1,87 @@
+// CPF / CNPJ helpers (check digits, masking and document type)
+
+export type DocumentType = 'CPF' | 'CNPJ';
+
+export interface DocumentValidation {
+  type: DocumentType | null;
+  valid: boolean;
+  error?: string;
+}
+
+const onlyDigits = (value: string) => (value || '').replace(/\D/g, '');
+
+// Rejects sequences like 000.000.000-00 that pass the digit math
+const isRepeatedDigits = (digits: string) => /^(\d)\1+$/.test(digits);
+
+export const isValidCPF = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || isRepeatedDigits(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += parseInt(digits[i]) * (length + 1 - i);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === parseInt(digits[9]) && checkDigit(10) === parseInt(digits[10]);
+};
+
+export const isValidCNPJ = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || isRepeatedDigits(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    const weights = length === 12
+      ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+      : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((acc, weight, i) => acc + parseInt(digits[i]) * weight, 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === parseInt(digits[12]) && checkDigit(13) === parseInt(digits[13]);
+};
+
+// Up to 11 digits is treated as CPF, more than that as CNPJ
+export const getDocumentType = (value: string): DocumentType | null => {
+  const digits = onlyDigits(value);
+  if (!digits) return null;
+  return digits.length <= 11 ? 'CPF' : 'CNPJ';
+};
+
+// Progressive mask while typing: 000.000.000-00 / 00.000.000/0000-00
+export const maskDocument = (value: string): string => {
+  const digits = onlyDigits(value).slice(0, 14);
+  if (digits.length <= 11) {
+    return digits
+      .replace(/^(\d{3})(\d)/, '$1.$2')
+      .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+      .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+  }
+  return digits
+    .replace(/^(\d{2})(\d)/, '$1.$2')
+    .replace(/^(\d{2})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d)/, '.$1/$2')
+    .replace(/(\d{4})(\d{1,2})$/, '$1-$2');
+};
+
+// An empty document is allowed (walk-in customers); anything typed must be complete and valid
+export const validateDocument = (value: string): DocumentValidation => {
+  const digits = onlyDigits(value);
+  const type = getDocumentType(value);
+  if (!type) return { type: null, valid: true };
+
+  if (type === 'CPF') {
+    if (digits.length < 11) return { type, valid: false, error: 'CPF incompleto' };
+    return isValidCPF(digits) ? { type, valid: true } : { type, valid: false, error: 'CPF inválido' };
+  }
+
+  if (digits.length < 14) return { type, valid: false, error: 'CNPJ incompleto' };
+  return isValidCNPJ(digits) ? { type, valid: true } : { type, valid: false, error: 'CNPJ inválido' };
+};
+
+// Label printed next to the document on receipts
+export const getDocumentLabel = (value: string): string => getDocumentType(value) || 'CPF/CNPJ';
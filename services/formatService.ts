@@ -0,0 +1,17 @@
+// Money parsing and formatting shared by the editors and lists
+
+export const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+// Value as typed in a price field ("500,5"); empty for zero so the placeholder shows
+export const formatPriceInput = (value: number) => value ? value.toString().replace('.', ',') : '';
+
+// Accepts both "1.234,56" (pt-BR) and "1234.56"
+export const parsePriceInput = (value: string): number => {
+  const clean = value.replace(/[R$\s]/g, '');
+  if (!clean) return 0;
+  const normalized = clean.includes(',')
+    ? clean.replace(/\./g, '').replace(',', '.')
+    : clean;
+  const num = parseFloat(normalized);
+  return isNaN(num) ? 0 : num;
+};
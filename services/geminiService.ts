@@ -2,6 +2,8 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { ReceiptData } from "../types";
+import { calculateTotals } from "./pricingService";
+import { getPaymentStatus } from "./paymentService";
 
 // Helper to safely get the API Key from various possible sources
 const getApiKey = (): string => {
@@ -38,26 +40,26 @@ export const generateClientMessage = async (data: ReceiptData): Promise<string>
   const ai = new GoogleGenAI({ apiKey });
   const model = "gemini-2.5-flash";
   
-  // Calculations for prompt
-  const subtotal = data.products.reduce((acc, curr) => acc + (curr.price * curr.quantity), 0);
-  let discountAmount = 0;
-  if (data.discountType === 'fixed') {
-    discountAmount = data.discountValue;
-  } else {
-    discountAmount = subtotal * (data.discountValue / 100);
-  }
-  const finalTotal = Math.max(0, subtotal - discountAmount);
+  // Same totals as the receipt (promotions included)
+  const totals = calculateTotals(data);
+  const finalTotal = totals.total;
 
   // Format product list for the prompt
   const productsListText = data.products.length > 0 
     ? data.products.map(p => `- ${p.quantity}x ${p.name} (${(p.price * p.quantity).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })})`).join('\n')
     : "Não especificado";
   
-  const discountText = discountAmount > 0 
-    ? `Desconto: - ${discountAmount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}\n` 
-    : '';
+  const discountText = [
+    ...totals.promotions.map(promo => `${promo.label}: - ${promo.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`),
+    ...(totals.manualDiscount > 0 ? [`Desconto: - ${totals.manualDiscount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`] : []),
+    ...(totals.deliveryFee > 0 ? [`Taxa de entrega: + ${totals.deliveryFee.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`] : []),
+  ].map(line => `${line}\n`).join('');
 
   const totalText = finalTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+  const paymentStatus = getPaymentStatus(data.payments, finalTotal);
+  const balanceText = paymentStatus && !paymentStatus.settled
+    ? `Saldo a receber na entrega: ${paymentStatus.balanceDue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`
+    : '';
 
   const prompt = `
     Você é um assistente de vendas da BelConfort (Loja de Camas e Móveis).
@@ -67,14 +69,16 @@ export const generateClientMessage = async (data: ReceiptData): Promise<string>
     Nome: ${data.name}
     CPF: ${data.cpf}
     Data: ${data.date}
-    Endereço: ${data.street}, ${data.number}, ${data.neighborhood}, ${data.city} ${data.complement ? `(${data.complement})` : ''}
+    Endereço: ${data.street}, ${data.number}, ${data.neighborhood}, ${data.city}${data.cep ? ` - CEP ${data.cep}` : ''} ${data.complement ? `(${data.complement})` : ''}
     Forma de Pagamento: ${data.paymentMethod}
+    Entrega: ${data.delivery ? `${data.delivery.date || 'a agendar'} (${data.delivery.timeWindow})` : 'retirada na loja'}
     
     Produtos:
     ${productsListText}
 
     ${discountText}
     Valor Total: ${totalText}
+    ${balanceText}
     
     A mensagem deve agradecer a preferência pela BelConfort.
     Use emojis relacionados a conforto, móveis e casa. 
@@ -109,9 +113,8 @@ export const parseReceiptFromText = async (text: string, catalogNames: string[]
     Analise o seguinte texto de um pedido/ficha de cliente.
     
     1. Extraia os dados pessoais do cliente.
-    2. Tente identificar um CÓDIGO DA VENDA, Número do Pedido ou ID (ex: #1234, 8402, PED-01).
-    3. Identifique o CPF ou CNPJ do cliente se houver.
-    4. Identifique os produtos mencionados que correspondam à lista de catálogos fornecida abaixo.
+    2. Identifique o CPF ou CNPJ do cliente se houver.
+    3. Identifique os produtos mencionados que correspondam à lista de catálogos fornecida abaixo.
     
     REGRAS IMPORTANTES PARA PRODUTOS:
     - Analise com MUITA atenção a QUANTIDADE de cada item mencionado (ex: "2 camas" = quantidade 2, "3x travesseiros" = quantidade 3). Se não especificar, assuma 1.
@@ -140,7 +143,6 @@ export const parseReceiptFromText = async (text: string, catalogNames: string[]
             clientData: {
               type: Type.OBJECT,
               properties: {
-                saleCode: { type: Type.STRING },
                 name: { type: Type.STRING },
                 cpf: { type: Type.STRING },
                 date: { type: Type.STRING },
@@ -149,6 +151,7 @@ export const parseReceiptFromText = async (text: string, catalogNames: string[]
                 number: { type: Type.STRING },
                 neighborhood: { type: Type.STRING },
                 city: { type: Type.STRING },
+                cep: { type: Type.STRING },
                 complement: { type: Type.STRING },
                 contact1: { type: Type.STRING },
                 contact2: { type: Type.STRING },
@@ -0,0 +1,69 @@
+import { Payment, PaymentMethod } from '../types';
+import { roundToCents, toCents } from './pricingService';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['DINHEIRO', 'PIX', 'CRÉDITO', 'DÉBITO', 'OUTROS'];
+export const CARD_BRANDS = ['VISA', 'MASTERCARD', 'ELO', 'HIPERCARD', 'AMEX', 'OUTRA'];
+export const MAX_INSTALLMENTS = 12;
+
+export interface PaymentCheck {
+  paid: number;
+  remaining: number; // Positive when payments are short of the total (balance due), negative when they exceed it
+  matches: boolean;
+  error?: string; // Set only for states that must be fixed before issuing
+}
+
+export const isCardPayment = (payment: Payment) => payment.method === 'CRÉDITO' || payment.method === 'DÉBITO';
+
+export const getPaymentsTotal = (payments: Payment[]) =>
+  roundToCents(payments.reduce((acc, p) => acc + (p.amount || 0), 0));
+
+export const getChangeDue = (payment: Payment) =>
+  payment.method === 'DINHEIRO' && payment.cashTendered
+    ? Math.max(0, roundToCents(payment.cashTendered - payment.amount))
+    : 0;
+
+export const getInstallmentValue = (payment: Payment) =>
+  roundToCents(payment.amount / Math.max(1, payment.installments || 1));
+
+// e.g. "CRÉDITO 10X VISA" / "PIX"
+export const getPaymentLabel = (payment: Payment) => {
+  const parts: string[] = [payment.method];
+  if (payment.method === 'CRÉDITO') parts.push((payment.installments || 1) > 1 ? `${payment.installments}X` : 'À VISTA');
+  if (isCardPayment(payment) && payment.cardBrand) parts.push(payment.cardBrand);
+  return parts.join(' ');
+};
+
+// One-line summary kept in `paymentMethod` for the archive and older readers
+export const summarizePayments = (payments: Payment[]) =>
+  payments.map(p => payments.length > 1
+    ? `${getPaymentLabel(p)} ${p.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`
+    : getPaymentLabel(p)
+  ).join(' + ');
+
+export interface PaymentStatus {
+  paid: number;
+  balanceDue: number;
+  settled: boolean; // QUITADO
+}
+
+// Balance is only tracked once payments are informed; receipts without them are treated as untracked
+export const getPaymentStatus = (payments: Payment[] | undefined, total: number): PaymentStatus | null => {
+  if (!payments || payments.length === 0) return null;
+  const paid = getPaymentsTotal(payments);
+  const balanceDue = Math.max(0, (toCents(total) - toCents(paid)) / 100);
+  return { paid, balanceDue, settled: balanceDue === 0 };
+};
+
+// Paying less than the total leaves a balance due (sinal); paying more is an error
+export const checkPayments = (payments: Payment[], total: number): PaymentCheck => {
+  const paid = getPaymentsTotal(payments);
+  const remainingCents = toCents(total) - toCents(paid);
+  const remaining = remainingCents / 100;
+  const format = (value: number) => Math.abs(value).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  if (payments.some(p => p.method === 'DINHEIRO' && p.cashTendered && p.cashTendered < p.amount)) {
+    return { paid, remaining, matches: false, error: 'Valor recebido em dinheiro é menor que o pagamento' };
+  }
+  if (remainingCents < 0) return { paid, remaining, matches: false, error: `Pagamentos excedem o total em ${format(remaining)}` };
+  return { paid, remaining, matches: remainingCents === 0 };
+};
@@ -1,7 +1,19 @@
 
 
 import { jsPDF } from 'jspdf';
-import { ReceiptData } from '../types';
+import { PolicySection, ReceiptData, ReturnRecord, Signature } from '../types';
+import { calculateTotals } from './pricingService';
+import { getDocumentLabel } from './documentService';
+import { getPaymentLabel, getInstallmentValue, getChangeDue, getPaymentStatus } from './paymentService';
+import { getReturnType } from './returnService';
+import { STORE_WARRANTY_DAYS, WARRANTY_TERMS, formatWarrantyDate, getFactoryWarrantyLabel, getPurchaseDate, getWarrantyDates } from './warrantyService';
+import { formatDeliveryDate, getDeliveryItems, getBalanceToCollect, formatStopBalance, DeliveryRoute } from './deliveryService';
+import { isQuote, getDocumentTitle, getDocumentFilePrefix } from './quoteService';
+import { formatBranchAddress, StoreIdentity } from './storeService';
+import { parsePolicyText, POLICY_TITLE } from './policyService';
+import { formatSignedAt, isUnsigned, SIGNATURE_LABELS, UNSIGNED_LABEL } from './signatureService';
+import { buildVerificationPayload } from './verificationService';
+import { getReceiptPix } from './pixService';
 import QRCode from 'qrcode';
 import JsBarcode from 'jsbarcode';
 
@@ -15,6 +27,8 @@ const COLORS = {
   white: '#ffffff',
   red: '#ef4444',
   blue: '#3b82f6', // blue-500
+  green: '#15803d', // green-700
+  orange: '#c2410c', // orange-700
   
   // Observation Box
   obsBg: '#fefce8', // yellow-50
@@ -26,28 +40,21 @@ const COLORS = {
   stampBlue: '#1e3a8a', // Dark Blue for stamp
 };
 
-export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
-  const doc = new jsPDF();
-  
-  // Settings
-  const margin = 10; // 10mm margin
-  const pageWidth = 210;
-  const contentWidth = pageWidth - (margin * 2);
-  const pageHeight = 297;
-  
-  let y = 10; // Cursor
+// Columns of the item tables in the delivery order and the return receipt
+interface TableColumn {
+  name: string;
+  w: number;
+  align: 'left' | 'center' | 'right';
+}
 
-  // Helper to check for page break
-  const checkPageBreak = (heightNeeded: number) => {
-    if (y + heightNeeded > pageHeight - margin) {
-      doc.addPage();
-      y = margin + 10; // Reset to top with a little padding
-      return true;
-    }
-    return false;
-  };
+const getFooterText = (store: StoreIdentity) => `Documento gerado pelo Ecosistema ${store.name}`;
+
+// Blue store banner shared by every document (receipt, delivery order), with the issuing branch
+const drawStoreHeader = async (doc: jsPDF, store: StoreIdentity) => {
+  const margin = 10;
+  const pageWidth = 210;
+  const { branch } = store;
 
-  // --- 1. HEADER SECTION ---
   const headerHeight = 40;
   doc.setFillColor(COLORS.brandBlue);
   doc.rect(0, 0, pageWidth, headerHeight, 'F');
@@ -55,32 +62,264 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   doc.setTextColor(COLORS.white);
   doc.setFont("times", "bold");
   doc.setFontSize(26);
-  doc.text("BelConfort", margin, 20);
+  doc.text(store.name, margin, 20);
   
   doc.setFont("helvetica", "normal");
   doc.setFontSize(8);
-  doc.text("CAMAS E MÓVEIS", margin, 26, { charSpace: 1.5 });
+  doc.text(store.tagline, margin, 26, { charSpace: 1.5 });
 
   const qrSize = 25;
   const qrX = pageWidth - margin - qrSize;
-  const infoX = qrX - 5; 
+  const infoX = store.instagramUrl ? qrX - 5 : pageWidth - margin;
 
   doc.setFont("helvetica", "bold");
   doc.setFontSize(9);
-  doc.text("CNPJ 60.190.028/0001-60", infoX, 15, { align: "right" });
+  if (branch.cnpj) doc.text(`CNPJ ${branch.cnpj}`, infoX, 15, { align: "right" });
   doc.setFont("helvetica", "normal");
-  doc.text("RUA B, 103C, CASTANHEIRA - BELEM/PA", infoX, 20, { align: "right" });
+  doc.text(formatBranchAddress(branch), infoX, 20, { align: "right" });
   
-  doc.text("belconfortcamasemoveis@gmail.com", infoX, 25, { align: "right" });
-  doc.text("(91) 99381-2592", infoX, 30, { align: "right" });
+  doc.text(branch.email, infoX, 25, { align: "right" });
+  doc.text(branch.phone, infoX, 30, { align: "right" });
 
+  if (!store.instagramUrl) return;
   try {
-    const qrDataUrl = await QRCode.toDataURL('https://www.instagram.com/belconfortcamasemoveis/', {
+    const qrDataUrl = await QRCode.toDataURL(store.instagramUrl, {
         margin: 0,
         color: { dark: '#ffffff', light: '#1e40af' }
     });
     doc.addImage(qrDataUrl, 'PNG', qrX, 7, qrSize, qrSize);
   } catch (err) { /* ignore */ }
+};
+
+// Policy box contents (title, rule and sections with **bold** runs and bullets); returns the box height.
+// Called with draw = false to measure before the page break check.
+const drawPolicySections = (doc: jsPDF, sections: PolicySection[], x: number, width: number, top: number, draw: boolean): number => {
+  const lineHeight = 3;
+  const textX = x + 3;
+  let policyY = top + 5;
+
+  if (draw) {
+    doc.setTextColor(COLORS.textDark);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.text(POLICY_TITLE, x + width / 2, policyY, { align: "center" });
+    doc.setDrawColor(COLORS.borderGray);
+    doc.setLineWidth(0.1);
+    doc.line(x + 5, policyY + 2, x + width - 5, policyY + 2);
+  }
+  policyY += 8;
+  doc.setFontSize(7);
+
+  sections.forEach((section, index) => {
+    if (index > 0) policyY += 2;
+
+    if (section.title) {
+      doc.setFont("helvetica", "bold");
+      if (draw) {
+        doc.setTextColor(51, 65, 85);
+        doc.text(section.title, textX, policyY);
+      }
+      if (section.note && draw) {
+        const titleWidth = doc.getTextWidth(section.title);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(100, 116, 139);
+        doc.text(section.note, textX + titleWidth + 1, policyY);
+      }
+      policyY += 3.5;
+    }
+
+    parsePolicyText(section.body).forEach(line => {
+      const lineStart = line.bullet ? textX + 2 : textX;
+      const maxX = x + width - 3;
+      let cursorX = lineStart;
+
+      if (line.bullet && draw) {
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor(71, 85, 105);
+        doc.text("•", textX, policyY);
+      }
+
+      // Word by word so bold runs can sit in the middle of a wrapped paragraph
+      line.segments.forEach(segment => {
+        doc.setFont("helvetica", segment.bold ? "bold" : "normal");
+        if (draw) {
+          if (segment.bold) doc.setTextColor(51, 65, 85);
+          else doc.setTextColor(71, 85, 105);
+        }
+        segment.text.split(/(\s+)/).filter(Boolean).forEach(word => {
+          const isSpace = /^\s+$/.test(word);
+          if (isSpace && cursorX === lineStart) return;
+          const wordWidth = doc.getTextWidth(isSpace ? ' ' : word);
+          if (!isSpace && cursorX > lineStart && cursorX + wordWidth > maxX) {
+            policyY += lineHeight;
+            cursorX = lineStart;
+          }
+          if (!isSpace && draw) doc.text(word, cursorX, policyY);
+          cursorX += wordWidth;
+        });
+      });
+      policyY += lineHeight + (line.bullet ? 0.5 : 0);
+    });
+  });
+
+  return policyY - top + 1;
+};
+
+// Signature image (fitted above the line), dashed line, label and signing time
+const drawSignatureLine = (doc: jsPDF, signature: Signature | undefined, label: string, centerX: number, lineY: number, width: number) => {
+  if (signature) {
+    try {
+      // JPEG since signatures were downscaled; older sales keep their PNG
+      const { width: imgW, height: imgH, fileType } = doc.getImageProperties(signature.image);
+      const maxH = 18;
+      const scale = Math.min(width / imgW, maxH / imgH);
+      const drawW = imgW * scale;
+      const drawH = imgH * scale;
+      doc.addImage(signature.image, fileType, centerX - drawW / 2, lineY - 1 - drawH, drawW, drawH);
+    } catch (e) { /* ignore */ }
+  }
+
+  doc.setDrawColor(COLORS.textDark);
+  doc.setLineWidth(0.1);
+  doc.setLineDashPattern([1, 1], 0);
+  doc.line(centerX - width / 2, lineY, centerX + width / 2, lineY);
+  doc.setLineDashPattern([], 0);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textGray);
+  doc.text(label, centerX, lineY + 4, { align: "center" });
+
+  if (signature) {
+    doc.setFontSize(6);
+    if (signature.signer) doc.text(signature.signer, centerX, lineY + 7, { align: "center" });
+    doc.text(formatSignedAt(signature), centerX, lineY + 10, { align: "center" });
+  }
+};
+
+// QR with the signed sale code / total / date checked by the "Verificar comprovante" screen.
+// Needs the sale code to find the sale again, so unnumbered receipts go without it.
+const getVerificationQr = async (data: ReceiptData, store: StoreIdentity): Promise<string | null> => {
+  if (!data.saleCode || !store.verificationKey) return null;
+  try {
+    const payload = await buildVerificationPayload(data, store.verificationKey);
+    return await QRCode.toDataURL(payload, { margin: 0, errorCorrectionLevel: 'M' });
+  } catch (err) {
+    return null;
+  }
+};
+
+// A4 page layout shared by the receipt, delivery order, route sheet, return and warranty documents
+const PAGE_MARGIN = 10;
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const CONTENT_WIDTH = PAGE_WIDTH - (PAGE_MARGIN * 2);
+
+// Starts a new page when `heightNeeded` does not fit below `y`; returns where drawing continues
+const ensurePageSpace = (doc: jsPDF, y: number, heightNeeded: number) => {
+  if (y + heightNeeded <= PAGE_HEIGHT - PAGE_MARGIN) return y;
+  doc.addPage();
+  return PAGE_MARGIN + 10;
+};
+
+interface FieldCell {
+  label: string;
+  text: string;
+  share: number; // Share of the content width
+}
+
+const FIELD_ROW_HEIGHT = 10;
+
+// Row of labelled boxes (CLIENTE, RUA...); returns the y below it
+const drawFieldRow = (doc: jsPDF, y: number, fields: FieldCell[]) => {
+  const top = ensurePageSpace(doc, y, FIELD_ROW_HEIGHT);
+  let x = PAGE_MARGIN;
+  fields.forEach(f => {
+    const w = CONTENT_WIDTH * f.share;
+    doc.setDrawColor(COLORS.borderGray);
+    doc.setLineWidth(0.1);
+    doc.rect(x, top, w, FIELD_ROW_HEIGHT);
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(6);
+    doc.setTextColor(COLORS.textGray);
+    doc.text(f.label, x + 2, top + 3.5);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.textDark);
+    const [firstLine] = doc.splitTextToSize((f.text || '-').replace(/(\r\n|\n|\r)/gm, " "), w - 4);
+    doc.text(firstLine || '-', x + 2, top + 7.5);
+    x += w;
+  });
+  return top + FIELD_ROW_HEIGHT;
+};
+
+// Grey header band of an item table, repeated after page breaks; returns the y below it
+const drawTableHeader = (doc: jsPDF, y: number, cols: TableColumn[]) => {
+  doc.setFillColor(COLORS.bgLight);
+  doc.setDrawColor(COLORS.borderGray);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 6, 'F');
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + CONTENT_WIDTH, y);
+  doc.line(PAGE_MARGIN, y + 6, PAGE_MARGIN + CONTENT_WIDTH, y + 6);
+
+  let colX = PAGE_MARGIN;
+  doc.setFontSize(7);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(COLORS.brandBlue);
+  cols.forEach(col => {
+    const textX = col.align === "center" ? colX + col.w / 2 : col.align === "right" ? colX + col.w - 2 : colX + 2;
+    doc.text(col.name, textX, y + 4, { align: col.align });
+    colX += col.w;
+  });
+  return y + 6;
+};
+
+// Yellow OBSERVAÇÃO box; returns the y below it
+const drawObservationBox = (doc: jsPDF, y: number, observation: string) => {
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "italic");
+  const splitObs = doc.splitTextToSize(observation, CONTENT_WIDTH - 10);
+  const obsBoxHeight = 10 + (splitObs.length * 3.5);
+  const top = ensurePageSpace(doc, y, obsBoxHeight + 5);
+
+  doc.setDrawColor(COLORS.obsBorder);
+  doc.setFillColor(COLORS.obsBg);
+  doc.roundedRect(PAGE_MARGIN, top, CONTENT_WIDTH, obsBoxHeight, 2, 2, 'FD');
+  doc.setTextColor(COLORS.obsTitle);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(7);
+  doc.text("OBSERVAÇÃO", PAGE_WIDTH / 2, top + 5, { align: "center" });
+  doc.setTextColor(COLORS.obsText);
+  doc.setFont("helvetica", "italic");
+  doc.setFontSize(8);
+  doc.text(splitObs, PAGE_WIDTH / 2, top + 9, { align: "center" });
+  return top + obsBoxHeight + 4;
+};
+
+export const createPDFDoc = async (data: ReceiptData, store: StoreIdentity): Promise<jsPDF> => {
+  const doc = new jsPDF();
+  
+  // Settings
+  const margin = 10; // 10mm margin
+  const pageWidth = 210;
+  const contentWidth = pageWidth - (margin * 2);
+  const pageHeight = 297;
+  
+  let y = 10; // Cursor
+
+  // Helper to check for page break
+  const checkPageBreak = (heightNeeded: number) => {
+    if (y + heightNeeded > pageHeight - margin) {
+      doc.addPage();
+      y = margin + 10; // Reset to top with a little padding
+      return true;
+    }
+    return false;
+  };
+
+  // --- 1. HEADER SECTION ---
+  await drawStoreHeader(doc, store);
 
   y = 48; // Adjusted start position to match Preview spacing
 
@@ -88,16 +327,37 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   doc.setTextColor(COLORS.textDark);
   doc.setFont("helvetica", "bold");
   doc.setFontSize(14);
-  doc.text("COMPROVANTE DE COMPRA", pageWidth / 2, y, { align: "center" });
+  doc.text(getDocumentTitle(data), pageWidth / 2, y, { align: "center" });
   
   y += 5;
   doc.setFontSize(8);
   doc.setTextColor(COLORS.textGray);
   doc.setFont("helvetica", "normal");
-  const dateStr = new Date().toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
-  const timeStr = new Date().toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  // Reprints of archived sales keep the original emission time
+  const issuedAt = data.issuedAt ? new Date(data.issuedAt) : new Date();
+  const dateStr = issuedAt.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const timeStr = issuedAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
   doc.text(`Emissão: ${dateStr} às ${timeStr}`, pageWidth / 2, y, { align: "center" });
 
+  // Verification QR beside the title, above the client grid
+  const verificationQr = await getVerificationQr(data, store);
+  if (verificationQr) {
+    const verifySize = 15;
+    const verifyX = pageWidth - margin - verifySize;
+    doc.addImage(verificationQr, 'PNG', verifyX, 42, verifySize, verifySize);
+    doc.setFontSize(6);
+    doc.text(["Verifique a", "autenticidade"], verifyX - 2, 48, { align: "right" });
+    doc.setFontSize(8);
+  }
+
+  const validUntilStr = data.validUntil ? new Date(data.validUntil + 'T12:00:00').toLocaleDateString('pt-BR') : '-';
+  if (isQuote(data)) {
+    y += 4;
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(COLORS.orange);
+    doc.text(`Válido até ${validUntilStr}`, pageWidth / 2, y, { align: "center" });
+  }
+
   y += 6; // Reduced spacing
 
   // --- 3. CLIENT DATA GRID ---
@@ -212,7 +472,7 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   drawDynamicRow([
       { label: "DATA DO PEDIDO", text: dateVal, min: 30 },
       { label: "CLIENTE", text: data.name, min: 60 },
-      { label: "CPF/CNPJ", text: data.cpf || '', min: 35 }
+      { label: getDocumentLabel(data.cpf || ''), text: data.cpf || '', min: 35 }
   ]);
 
   // --- ROW 2: Address ---
@@ -221,7 +481,8 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
       { label: "Nº", text: data.number || "", min: 12 },
       { label: "COMPLEMENTO", text: data.complement || "", min: 10 }, 
       { label: "BAIRRO", text: data.neighborhood || "", min: 25 },
-      { label: "CIDADE", text: data.city || "", min: 25 }
+      { label: "CIDADE", text: data.city || "", min: 25 },
+      { label: "CEP", text: data.cep || "", min: 18 }
   ]);
 
   // --- ROW 3: Contacts ---
@@ -231,6 +492,14 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
       { label: "CONTATOS", text: contactsText, min: 60 }
   ]);
 
+  // --- ROW 4: Delivery ---
+  if (data.delivery) {
+    drawDynamicRow([
+        { label: "ENTREGA", text: `${formatDeliveryDate(data.delivery.date)} · ${data.delivery.timeWindow}`, min: 50 },
+        { label: "PONTO DE REFERÊNCIA", text: data.delivery.referencePoint || "", min: 60 }
+    ]);
+  }
+
   y += 6; // Compact spacing before products
 
   // --- 4. PRODUCTS TABLE ---
@@ -263,12 +532,11 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
 
   y += 6;
 
-  let subtotal = 0;
+  const totals = calculateTotals(data);
   
   if (data.products.length > 0) {
     data.products.forEach((p, i) => {
-        const lineTotal = p.price * p.quantity;
-        subtotal += lineTotal;
+        const lineTotal = totals.lines[i].gross;
 
         doc.setFontSize(8); 
         doc.setFont("helvetica", "normal");
@@ -356,19 +624,38 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   y += 4; 
 
   // --- 5. SUMMARY SECTION ---
-  checkPageBreak(25); // Check space for summary
+  const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  // Payment breakdown: one line per payment plus installment / change details
+  const payments = data.payments || [];
+  const paymentLines: { label: string; value: string; detail?: boolean }[] = payments.flatMap(p => {
+    // Payments received after the sale carry their own date
+    const label = p.paidAt ? `${getPaymentLabel(p)} (${new Date(p.paidAt).toLocaleDateString('pt-BR')})` : getPaymentLabel(p);
+    const lines: { label: string; value: string; detail?: boolean }[] = [{ label, value: formatBRL(p.amount) }];
+    if (p.method === 'CRÉDITO' && (p.installments || 1) > 1) {
+      lines.push({ label: `${p.installments}x de ${formatBRL(getInstallmentValue(p))}`, value: '', detail: true });
+    }
+    if (getChangeDue(p) > 0) {
+      lines.push({ label: `Recebido ${formatBRL(p.cashTendered || 0)}`, value: `Troco ${formatBRL(getChangeDue(p))}`, detail: true });
+    }
+    return lines;
+  });
+  const paymentRowH = paymentLines.length > 0 && !isQuote(data) ? 8 + paymentLines.length * 4 : 7;
 
-  const summaryStartY = y;
   const totalsWidth = 90;
   const totalsX = pageWidth - margin - totalsWidth;
   const leftBoxW = 85; 
-  const leftBoxH = 21; 
+  const codeRowH = data.saleCode ? 15 : 7; // Room for the sale code barcode
+  const leftBoxH = codeRowH + 7 + paymentRowH; 
+
+  checkPageBreak(Math.max(25, leftBoxH + 4)); // Check space for summary
+  const summaryStartY = y;
   
   doc.setDrawColor(COLORS.borderGray);
   doc.setLineWidth(0.1);
   doc.rect(margin, summaryStartY, leftBoxW, leftBoxH);
-  doc.line(margin, summaryStartY + 7, margin + leftBoxW, summaryStartY + 7);
-  doc.line(margin, summaryStartY + 14, margin + leftBoxW, summaryStartY + 14);
+  doc.line(margin, summaryStartY + codeRowH, margin + leftBoxW, summaryStartY + codeRowH);
+  doc.line(margin, summaryStartY + codeRowH + 7, margin + leftBoxW, summaryStartY + codeRowH + 7);
 
   const row1Y = summaryStartY;
   doc.setFont("helvetica", "bold");
@@ -378,8 +665,18 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   doc.setFontSize(9);
   doc.setTextColor(COLORS.brandBlue);
   doc.text(data.saleCode.toUpperCase() || '-', margin + leftBoxW - 2, row1Y + 5, { align: "right" });
+  if (data.saleCode) {
+    try {
+      const canvas = document.createElement('canvas');
+      JsBarcode(canvas, data.saleCode.toUpperCase(), {
+        format: "CODE128", width: 2, height: 40, displayValue: false, margin: 0
+      });
+      const barcodeW = leftBoxW - 4;
+      doc.addImage(canvas.toDataURL('image/png'), 'PNG', margin + 2, row1Y + 7, barcodeW, 6.5);
+    } catch (e) { /* ignore */ }
+  }
 
-  const row2Y = summaryStartY + 7;
+  const row2Y = summaryStartY + codeRowH;
   doc.setFont("helvetica", "bold");
   doc.setFontSize(7);
   doc.setTextColor(COLORS.textGray);
@@ -389,25 +686,41 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   doc.setTextColor(COLORS.textDark);
   doc.text(data.salesperson.toUpperCase() || '-', margin + leftBoxW - 2, row2Y + 5, { align: "right" });
 
-  const row3Y = summaryStartY + 14;
+  const row3Y = row2Y + 7;
   doc.setFont("helvetica", "bold");
   doc.setFontSize(7);
   doc.setTextColor(COLORS.textGray);
-  doc.text("FORMA DE PAGAMENTO", margin + 2, row3Y + 4.5);
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(9);
-  doc.setTextColor(COLORS.textDark);
-  doc.text(data.paymentMethod.toUpperCase() || '-', margin + leftBoxW - 2, row3Y + 5, { align: "right" });
-
-  let totalsY = summaryStartY;
-  let manualDiscountAmount = 0;
-  if (data.discountType === 'fixed') {
-    manualDiscountAmount = data.discountValue;
+  if (isQuote(data)) {
+    // Quotes confirm no payment, only how long the prices hold
+    doc.text("VALIDADE DO ORÇAMENTO", margin + 2, row3Y + 4.5);
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.orange);
+    doc.text(validUntilStr, margin + leftBoxW - 2, row3Y + 5, { align: "right" });
+  } else if (paymentLines.length > 0) {
+    doc.text("FORMA DE PAGAMENTO", margin + 2, row3Y + 4.5);
+    let paymentY = row3Y + 9;
+    paymentLines.forEach(line => {
+      doc.setFont("helvetica", line.detail ? "italic" : "normal");
+      doc.setFontSize(line.detail ? 7 : 8);
+      doc.setTextColor(line.detail ? COLORS.textGray : COLORS.textDark);
+      doc.text(line.label, margin + (line.detail ? 5 : 2), paymentY);
+      if (line.value) {
+        doc.setFont("helvetica", line.detail ? "italic" : "bold");
+        doc.text(line.value, margin + leftBoxW - 2, paymentY, { align: "right" });
+      }
+      paymentY += 4;
+    });
   } else {
-    manualDiscountAmount = subtotal * (data.discountValue / 100);
+    // Receipts issued before split payments only carry the method name
+    doc.text("FORMA DE PAGAMENTO", margin + 2, row3Y + 4.5);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.textDark);
+    doc.text(data.paymentMethod.toUpperCase() || '-', margin + leftBoxW - 2, row3Y + 5, { align: "right" });
   }
-  const bundleDiscountAmount = data.bundleDiscount || 0;
-  const finalTotal = Math.max(0, subtotal - manualDiscountAmount - bundleDiscountAmount);
+
+  let totalsY = summaryStartY;
+  const { subtotal, manualDiscount: manualDiscountAmount, total: finalTotal } = totals;
 
   const drawTotalLine = (label: string, value: string, color: string = COLORS.textGray, isBold: boolean = false) => {
     doc.setFont("helvetica", isBold ? "bold" : "normal");
@@ -419,160 +732,159 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   };
 
   drawTotalLine("Subtotal:", subtotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }));
-  if (bundleDiscountAmount > 0) {
-     // Use the provided bundleLabel or fallback if missing (backward compatibility)
-     const bundleLabel = data.bundleLabel ? `${data.bundleLabel}:` : "Desconto Promocional:";
-     drawTotalLine(bundleLabel, `- ${bundleDiscountAmount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`, COLORS.blue);
-  }
+  // One line per promotion rule (older receipts get a single line with their bundleLabel)
+  totals.promotions.forEach(promo => {
+     drawTotalLine(`${promo.label}:`, `- ${promo.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`, COLORS.blue);
+  });
   if (manualDiscountAmount > 0) {
     drawTotalLine("Desc. Vendedor:", `- ${manualDiscountAmount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`, COLORS.red);
   }
+  if (totals.deliveryFee > 0) {
+    drawTotalLine("Taxa de Entrega:", `+ ${formatBRL(totals.deliveryFee)}`);
+  }
   totalsY += 1;
   doc.setFillColor(COLORS.bgLight);
   doc.roundedRect(totalsX - 5, totalsY - 5, totalsWidth + 5, 10, 1, 1, 'F');
   totalsY += 1.5;
   drawTotalLine("TOTAL:", finalTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }), COLORS.textDark, true);
 
+  // --- SALDO A RECEBER (down payment / balance on delivery) ---
+  const paymentStatus = isQuote(data) ? null : getPaymentStatus(data.payments, finalTotal);
+  if (paymentStatus) {
+    totalsY += 1;
+    drawTotalLine("Valor Pago:", formatBRL(paymentStatus.paid));
+    totalsY += 1;
+    doc.setLineWidth(0.5);
+    if (paymentStatus.settled) {
+      doc.setDrawColor(COLORS.green);
+      doc.roundedRect(totalsX - 5, totalsY - 5, totalsWidth + 5, 9, 1, 1, 'S');
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(11);
+      doc.setTextColor(COLORS.green);
+      doc.text("QUITADO", totalsX - 5 + (totalsWidth + 5) / 2, totalsY + 1, { align: "center" });
+      totalsY += 7;
+    } else {
+      doc.setDrawColor(COLORS.orange);
+      doc.roundedRect(totalsX - 5, totalsY - 5, totalsWidth + 5, 9, 1, 1, 'S');
+      totalsY += 1;
+      drawTotalLine("SALDO A RECEBER:", formatBRL(paymentStatus.balanceDue), COLORS.orange, true);
+      totalsY += 1;
+    }
+    doc.setLineWidth(0.1);
+  }
+
   y = Math.max(summaryStartY + leftBoxH, totalsY); 
 
   // --- 6. OBSERVATION ---
   y += 4;
-  const obsText = "A garantia cobre exclusivamente o que está especificado na etiqueta e no certificado de cada produto.";
-  doc.setFontSize(8);
-  doc.setFont("helvetica", "italic");
-  const splitObs = doc.splitTextToSize(obsText, contentWidth - 10);
-  const obsBoxHeight = 10 + (splitObs.length * 3.5);
-
-  checkPageBreak(obsBoxHeight + 5);
-
-  doc.setDrawColor(COLORS.obsBorder);
-  doc.setFillColor(COLORS.obsBg);
-  doc.roundedRect(margin, y, contentWidth, obsBoxHeight, 2, 2, 'FD');
-  doc.setTextColor(COLORS.obsTitle);
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(7);
-  doc.text("OBSERVAÇÃO", pageWidth / 2, y + 5, { align: "center" });
-  doc.setTextColor(COLORS.obsText);
-  doc.setFont("helvetica", "italic");
-  doc.setFontSize(8);
-  doc.text(splitObs, pageWidth / 2, y + 9, { align: "center" });
-  
-  y += obsBoxHeight + 4; 
+  const observation = (data.observation || '').trim();
+  if (observation) y = drawObservationBox(doc, y, observation);
+
+  // --- 6b. PIX (BR Code for the total of quotes / the balance of sales) ---
+  const pix = getReceiptPix(data, store);
+  if (pix) {
+    const qrSize = 30;
+    const textX = margin + qrSize + 8;
+    const textWidth = contentWidth - qrSize - 12;
+    doc.setFont("courier", "normal");
+    doc.setFontSize(7);
+    const payloadLines = doc.splitTextToSize(pix.payload, textWidth);
+    const pixBoxHeight = Math.max(qrSize + 6, 19 + payloadLines.length * 3);
+
+    checkPageBreak(pixBoxHeight + 5);
 
-  // --- 7. RETURN POLICY (CDC) ---
-  const policyHeight = 58; 
-  
-  // Important: Check if policy fits
-  checkPageBreak(policyHeight + 10);
+    doc.setDrawColor(COLORS.borderGray);
+    doc.setLineWidth(0.1);
+    doc.roundedRect(margin, y, contentWidth, pixBoxHeight, 2, 2, 'S');
+    try {
+      const pixQr = await QRCode.toDataURL(pix.payload, { margin: 0, errorCorrectionLevel: 'M' });
+      doc.addImage(pixQr, 'PNG', margin + 3, y + 3, qrSize, qrSize);
+    } catch (err) { /* ignore */ }
 
-  doc.setDrawColor(COLORS.borderGray);
-  doc.setFillColor('#f8fafc'); 
-  doc.roundedRect(margin, y, contentWidth, policyHeight, 2, 2, 'FD');
-  
-  let policyY = y + 5;
-  doc.setTextColor(COLORS.textDark);
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(8);
-  doc.text("POLÍTICA DE TROCAS E DEVOLUÇÕES", pageWidth / 2, policyY, { align: "center" });
-  doc.setDrawColor(COLORS.borderGray);
-  doc.setLineWidth(0.1);
-  doc.line(margin + 5, policyY + 2, pageWidth - margin - 5, policyY + 2);
-  
-  policyY += 8;
-  
-  doc.setFontSize(7);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(51, 65, 85); 
-  doc.text("DIREITO DE ARREPENDIMENTO", margin + 3, policyY);
-  
-  const widthTitle = doc.getTextWidth("DIREITO DE ARREPENDIMENTO");
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(100, 116, 139); 
-  doc.text("(Art. 49 do CDC):", margin + 3 + widthTitle + 1, policyY);
+    doc.setTextColor(COLORS.textDark);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.text("PAGUE COM PIX", textX, y + 7);
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.green);
+    doc.text(`${pix.label}: ${formatBRL(pix.amount)}`, textX, y + 11.5);
+    doc.setTextColor(COLORS.textGray);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(6);
+    doc.text("PIX COPIA E COLA:", textX, y + 16);
+    doc.setTextColor(COLORS.textDark);
+    doc.setFont("courier", "normal");
+    doc.setFontSize(7);
+    doc.text(payloadLines, textX, y + 19);
 
-  policyY += 3.5;
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(71, 85, 105); 
-  const textArrep = "O cliente tem o prazo de até 7 (sete) dias corridos para desistir da compra, contados a partir do recebimento do produto, desde que esteja sem uso e com lacre intacto.";
-  const splitArrep = doc.splitTextToSize(textArrep, contentWidth - 6);
-  doc.text(splitArrep, margin + 3, policyY);
-  policyY += (splitArrep.length * 3);
+    y += pixBoxHeight + 4;
+  }
 
-  doc.text("• Compras online: frete de devolução por conta da empresa.", margin + 5, policyY);
-  policyY += 5;
+  // --- 7. RETURN POLICY (CDC) ---
+  if (store.policySections.length > 0) {
+    // Measure first so the box fits whatever text the store configured
+    const policyHeight = drawPolicySections(doc, store.policySections, margin, contentWidth, y, false);
 
-  doc.setTextColor(51, 65, 85); 
-  doc.setFont("helvetica", "bold");
-  doc.text("COMPRAS EM LOJA FÍSICA:", margin + 3, policyY);
-  
-  policyY += 3.5;
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(71, 85, 105); 
-  const textFisica = "Compras realizadas em loja física não possuem direito de arrependimento, conforme o Código de Defesa do Consumidor, exceto em casos de defeito de fabricação.";
-  const splitFisica = doc.splitTextToSize(textFisica, contentWidth - 6);
-  doc.text(splitFisica, margin + 3, policyY);
-  policyY += (splitFisica.length * 3) + 2;
+    checkPageBreak(policyHeight + 10);
 
-  doc.setTextColor(51, 65, 85); 
-  doc.setFont("helvetica", "bold");
-  doc.text("DEFEITOS DE FABRICAÇÃO (Garantia Legal):", margin + 3, policyY);
-  
-  policyY += 3.5;
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(71, 85, 105); 
-  doc.text("• Garantia legal de 90 (noventa) dias, conforme o CDC.", margin + 5, policyY);
-  policyY += 3.5;
-  doc.text("• Após esse prazo, aplicar-se-á a garantia contratual do fabricante, quando houver, conforme certificado.", margin + 5, policyY);
+    doc.setDrawColor(COLORS.borderGray);
+    doc.setFillColor('#f8fafc'); 
+    doc.roundedRect(margin, y, contentWidth, policyHeight, 2, 2, 'FD');
+    drawPolicySections(doc, store.policySections, margin, contentWidth, y, true);
 
-  y += policyHeight;
+    y += policyHeight;
+  }
 
   // --- 8. FOOTER LAYERS (Relative to Content) ---
   
-  const footerNeededHeight = 45;
+  const footerNeededHeight = 50;
   // Check if footer fits, otherwise add page
   checkPageBreak(footerNeededHeight);
 
-  // Position footer below current 'y'
+  // Quotes carry no payment confirmation: no store stamp and no signature
+  if (isQuote(data)) {
+    y += 10;
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textGray);
+    const quoteNote = doc.splitTextToSize(
+      `Este orçamento não é comprovante de pagamento nem garante reserva de estoque. Preços válidos até ${validUntilStr}.`,
+      contentWidth - 20
+    );
+    doc.text(quoteNote, pageWidth / 2, y, { align: "center" });
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.setTextColor(200, 200, 200);
+    doc.text(getFooterText(store), pageWidth / 2, Math.max(y + 15, pageHeight - 10), { align: "center" });
+    return doc;
+  }
+
+  // Position footer below current 'y': customer signature, store stamp, salesperson signature
   const footerStart = y + 10;
   const stampY = footerStart;
   const footerY = stampY + 20;
 
-  const bracketSize = 5; 
-  const sigStartX = (pageWidth / 2) - 15;
-  const sigStartY = stampY + 18;
+  const sigWidth = 55;
+  const customerX = margin + 2 + sigWidth / 2;
+  const salespersonX = pageWidth - margin - 2 - sigWidth / 2;
 
-  doc.setDrawColor(COLORS.textDark);
-  doc.setLineWidth(0.1);
-  doc.setLineDashPattern([1, 1], 0);
-  doc.line(pageWidth / 4, footerY, (pageWidth / 4) * 3, footerY);
-  
-  doc.setFontSize(8);
-  doc.setTextColor(COLORS.textGray);
-  doc.setFont("helvetica", "normal");
-  doc.text("Assinatura do Responsável", pageWidth / 2, footerY + 5, { align: "center" });
+  drawSignatureLine(doc, data.signatures?.customer, SIGNATURE_LABELS.customer, customerX, footerY, sigWidth);
+  drawSignatureLine(doc, data.signatures?.salesperson, SIGNATURE_LABELS.salesperson, salespersonX, footerY, sigWidth);
+
+  if (isUnsigned(data)) {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(7);
+    doc.setTextColor(COLORS.red);
+    doc.text(UNSIGNED_LABEL, customerX, footerY - 5, { align: "center" });
+  }
 
+  doc.setFont("helvetica", "normal");
   doc.setFontSize(7);
   doc.setTextColor(200, 200, 200);
   // Bottom of page text, or below signature if multiple pages
-  const bottomTextY = Math.max(footerY + 15, pageHeight - 10);
-  doc.text("Documento gerado pelo Ecosistema Belconfort", pageWidth / 2, bottomTextY, { align: "center" });
-
-  doc.setDrawColor(80, 90, 120);
-  doc.setLineWidth(0.08);
-  doc.setLineDashPattern([], 0);
-
-  doc.moveTo(sigStartX, sigStartY);
-  doc.curveTo(sigStartX + 2, sigStartY - 15, sigStartX + 8, sigStartY - 15, sigStartX + 8, sigStartY);
-  doc.curveTo(sigStartX + 8, sigStartY - 12, sigStartX + 14, sigStartY - 12, sigStartX + 14, sigStartY);
-  doc.curveTo(sigStartX + 16, sigStartY - 3, sigStartX + 18, sigStartY + 2, sigStartX + 19, sigStartY - 1);
-  doc.lineTo(sigStartX + 21, sigStartY - 8);
-  doc.lineTo(sigStartX + 21, sigStartY);
-  doc.curveTo(sigStartX + 22, sigStartY - 10, sigStartX + 26, sigStartY - 10, sigStartX + 26, sigStartY);
-  doc.curveTo(sigStartX + 26, sigStartY - 5, sigStartX + 29, sigStartY - 5, sigStartX + 29, sigStartY);
-  doc.curveTo(sigStartX + 32, sigStartY - 2, sigStartX + 35, sigStartY + 2, sigStartX + 38, sigStartY - 2);
-  doc.moveTo(sigStartX - 5, sigStartY + 5);
-  doc.curveTo(sigStartX + 10, sigStartY + 8, sigStartX + 30, sigStartY + 3, sigStartX + 45, sigStartY + 6);
-  doc.stroke();
+  const bottomTextY = Math.max(footerY + 18, pageHeight - 10);
+  doc.text(getFooterText(store), pageWidth / 2, bottomTextY, { align: "center" });
 
   doc.setDrawColor(COLORS.stampBlue);
   doc.setLineWidth(0.5); 
@@ -599,28 +911,995 @@ export const createPDFDoc = async (data: ReceiptData): Promise<jsPDF> => {
   
   doc.setFont("helvetica", "bold");
   doc.setFontSize(10);
-  doc.text("60.190.028/0001-60", pageWidth / 2, stampY + 6, { align: "center" });
+  doc.text(store.branch.cnpj || '-', pageWidth / 2, stampY + 6, { align: "center" });
 
   doc.setFont("helvetica", "normal");
   doc.setFontSize(7);
-  doc.text("BELCONFORT CAMAS E MÓVEIS", pageWidth / 2, stampY + 11, { align: "center" });
+  doc.text(`${store.name} ${store.tagline}`.toUpperCase(), pageWidth / 2, stampY + 11, { align: "center" });
 
   doc.setFont("helvetica", "bold");
   doc.setFontSize(6);
-  doc.text("RUA B, 103C, CASTANHEIRA", pageWidth / 2, stampY + 16, { align: "center" });
-  doc.text("BELEM - PA", pageWidth / 2, stampY + 19, { align: "center" });
+  doc.text([store.branch.street, store.branch.neighborhood].filter(Boolean).join(', ').toUpperCase(), pageWidth / 2, stampY + 16, { align: "center" });
+  doc.text([store.branch.city, store.branch.state].filter(Boolean).join(' - ').toUpperCase(), pageWidth / 2, stampY + 19, { align: "center" });
 
   return doc;
 };
 
-export const generateReceiptPDF = async (data: ReceiptData) => {
-  const doc = await createPDFDoc(data);
+export const generateReceiptPDF = async (data: ReceiptData, store: StoreIdentity) => {
+  const doc = await createPDFDoc(data, store);
   const safeName = data.name ? data.name.toUpperCase() : 'CLIENTE';
-  const fileName = `COMPROVANTE - ${safeName}.pdf`;
+  const fileName = `${getDocumentFilePrefix(data)} - ${safeName}.pdf`;
   doc.save(fileName);
 };
 
-export const getReceiptBlob = async (data: ReceiptData): Promise<Blob> => {
-  const doc = await createPDFDoc(data);
+export const getReceiptBlob = async (data: ReceiptData, store: StoreIdentity): Promise<Blob> => {
+  const doc = await createPDFDoc(data, store);
   return doc.output('blob');
-};
\ No newline at end of file
+};
+
+// --- THERMAL ROLL RECEIPT (58/80mm) ---
+// Same content as the A4 receipt in a single narrow column, sized to the paper roll
+
+export type ReceiptFormat = 'A4' | 'TERMICA_80' | 'TERMICA_58';
+
+export const RECEIPT_FORMATS: { value: ReceiptFormat; label: string }[] = [
+  { value: 'A4', label: 'A4' },
+  { value: 'TERMICA_80', label: 'Térmica 80mm' },
+  { value: 'TERMICA_58', label: 'Térmica 58mm' },
+];
+
+// Draws the receipt and returns the height used, so the page can be cut to fit
+const drawThermalReceipt = async (doc: jsPDF, data: ReceiptData, store: StoreIdentity, paperWidth: number): Promise<number> => {
+  const margin = paperWidth >= 80 ? 4 : 2.5;
+  const contentWidth = paperWidth - (margin * 2);
+  const center = paperWidth / 2;
+  const right = paperWidth - margin;
+  const small = paperWidth >= 80 ? 7 : 6;
+  const normal = paperWidth >= 80 ? 8 : 7;
+  const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  let y = 6;
+
+  const separator = () => {
+    y += 1;
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.2);
+    doc.setLineDashPattern([0.8, 0.8], 0);
+    doc.line(margin, y, right, y);
+    doc.setLineDashPattern([], 0);
+    y += 3.5;
+  };
+
+  const centered = (text: string, size: number, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFont("helvetica", style);
+    doc.setFontSize(size);
+    const lines = doc.splitTextToSize(text, contentWidth);
+    doc.text(lines, center, y, { align: "center" });
+    y += lines.length * size * 0.42;
+  };
+
+  const row = (label: string, value: string, size: number = normal, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFont("helvetica", style);
+    doc.setFontSize(size);
+    const valueWidth = doc.getTextWidth(value);
+    const labelLines = doc.splitTextToSize(label, contentWidth - valueWidth - 2);
+    doc.text(labelLines, margin, y);
+    doc.text(value, right, y, { align: "right" });
+    y += labelLines.length * size * 0.42;
+  };
+
+  doc.setTextColor(0);
+
+  // --- HEADER ---
+  doc.setFont("times", "bold");
+  doc.setFontSize(paperWidth >= 80 ? 18 : 15);
+  doc.text(store.name, center, y + 2, { align: "center" });
+  y += 6;
+  centered(store.tagline, small);
+  if (store.branch.cnpj) centered(`CNPJ ${store.branch.cnpj}`, small, 'bold');
+  centered(formatBranchAddress(store.branch), small);
+  if (store.branch.phone) centered(store.branch.phone, small);
+  separator();
+
+  // --- TITLE ---
+  const issuedAt = data.issuedAt ? new Date(data.issuedAt) : new Date();
+  centered(getDocumentTitle(data), normal + 1, 'bold');
+  centered(`Emissão: ${issuedAt.toLocaleDateString('pt-BR')} ${issuedAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`, small);
+  if (isQuote(data) && data.validUntil) {
+    centered(`Válido até ${new Date(data.validUntil + 'T12:00:00').toLocaleDateString('pt-BR')}`, small, 'bold');
+  }
+  separator();
+
+  // --- CLIENT ---
+  row("CLIENTE", (data.name || '-').toUpperCase().slice(0, 28), small);
+  if (data.cpf) row(getDocumentLabel(data.cpf), data.cpf, small);
+  row("VENDEDOR", (data.salesperson || '-').toUpperCase(), small);
+  row("CÓDIGO", (data.saleCode || '-').toUpperCase(), small, 'bold');
+  separator();
+
+  // --- ITEMS ---
+  const totals = calculateTotals(data);
+  totals.lines.forEach(line => {
+    const p = line.product;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(normal);
+    const nameLines = doc.splitTextToSize(p.name.toUpperCase(), contentWidth);
+    doc.text(nameLines, margin, y);
+    y += nameLines.length * normal * 0.42;
+    row(`${p.code ? `${p.code}  ` : ''}${p.quantity} x ${formatBRL(p.price)}`, formatBRL(line.gross), small);
+    if (p.warrantyTime) {
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(small - 1);
+      doc.text(`GARANTIA: ${p.warrantyTime} ${p.warrantyUnit} FÁBRICA | 90 DIAS LOJA`, margin, y);
+      y += small * 0.42;
+    }
+    y += 0.8;
+  });
+  if (totals.lines.length === 0) centered("- Nenhum item -", small);
+  separator();
+
+  // --- TOTALS ---
+  row("Subtotal", formatBRL(totals.subtotal));
+  totals.promotions.forEach(promo => row(promo.label, `- ${formatBRL(promo.amount)}`));
+  if (totals.manualDiscount > 0) row("Desc. Vendedor", `- ${formatBRL(totals.manualDiscount)}`);
+  if (totals.deliveryFee > 0) row("Taxa de Entrega", `+ ${formatBRL(totals.deliveryFee)}`);
+  y += 1;
+  row("TOTAL", formatBRL(totals.total), normal + 3, 'bold');
+  y += 1;
+
+  // --- PAYMENTS ---
+  if (!isQuote(data)) {
+    const payments = data.payments || [];
+    if (payments.length > 0) {
+      payments.forEach(p => {
+        row(getPaymentLabel(p), formatBRL(p.amount), small);
+        if (p.method === 'CRÉDITO' && (p.installments || 1) > 1) row(`  ${p.installments}x de ${formatBRL(getInstallmentValue(p))}`, '', small);
+        if (getChangeDue(p) > 0) row(`  Recebido ${formatBRL(p.cashTendered || 0)}`, `Troco ${formatBRL(getChangeDue(p))}`, small);
+      });
+    } else if (data.paymentMethod) {
+      row("PAGAMENTO", data.paymentMethod.toUpperCase(), small);
+    }
+
+    const paymentStatus = getPaymentStatus(data.payments, totals.total);
+    if (paymentStatus) {
+      y += 1;
+      if (paymentStatus.settled) centered("*** QUITADO ***", normal + 1, 'bold');
+      else row("SALDO A RECEBER", formatBRL(paymentStatus.balanceDue), normal + 1, 'bold');
+    }
+  }
+  separator();
+
+  // --- OBSERVATION ---
+  const observation = (data.observation || '').trim();
+  if (observation) {
+    centered("OBSERVAÇÃO", small, 'bold');
+    centered(observation.toUpperCase(), small);
+    separator();
+  }
+
+  // --- SALE CODE BARCODE ---
+  if (data.saleCode) {
+    try {
+      const canvas = document.createElement('canvas');
+      JsBarcode(canvas, data.saleCode.toUpperCase(), {
+        format: "CODE128", width: 2, height: 50, displayValue: false, margin: 0
+      });
+      const barcodeWidth = Math.min(contentWidth, 50);
+      doc.addImage(canvas.toDataURL('image/png'), 'PNG', center - barcodeWidth / 2, y, barcodeWidth, 10);
+      y += 13;
+      centered(data.saleCode.toUpperCase(), small);
+    } catch (e) { /* ignore */ }
+    y += 1;
+  }
+
+  // --- PIX ---
+  const pix = getReceiptPix(data, store);
+  if (pix) {
+    centered(`PAGUE COM PIX - ${pix.label}: ${formatBRL(pix.amount)}`, small, 'bold');
+    y += 1;
+    try {
+      const pixQr = await QRCode.toDataURL(pix.payload, { margin: 0, errorCorrectionLevel: 'M' });
+      const qrSize = Math.min(contentWidth, 32);
+      doc.addImage(pixQr, 'PNG', center - qrSize / 2, y, qrSize, qrSize);
+      y += qrSize + 3;
+    } catch (err) { /* ignore */ }
+    centered("PIX COPIA E COLA:", small - 1, 'bold');
+    doc.setFont("courier", "normal");
+    doc.setFontSize(small - 1);
+    const payloadLines = doc.splitTextToSize(pix.payload, contentWidth);
+    doc.text(payloadLines, margin, y);
+    y += payloadLines.length * (small - 1) * 0.42;
+    separator();
+  }
+
+  // --- VERIFICATION QR ---
+  const verificationQr = await getVerificationQr(data, store);
+  if (verificationQr) {
+    const qrSize = Math.min(contentWidth, 22);
+    doc.addImage(verificationQr, 'PNG', center - qrSize / 2, y, qrSize, qrSize);
+    y += qrSize + 3;
+    centered("Verifique a autenticidade deste comprovante", small - 1);
+    y += 1;
+  }
+
+  // --- SIGNATURES ---
+  if (!isQuote(data)) {
+    const signatureWidth = Math.min(contentWidth, 50);
+    ([['customer', data.signatures?.customer], ['salesperson', data.signatures?.salesperson]] as const).forEach(([role, signature]) => {
+      if (signature) {
+        try {
+          const { width, height, fileType } = doc.getImageProperties(signature.image);
+          const imageHeight = signatureWidth * height / width;
+          doc.addImage(signature.image, fileType, center - signatureWidth / 2, y, signatureWidth, imageHeight);
+          y += imageHeight;
+        } catch (e) { /* ignore */ }
+      } else {
+        y += 8;
+      }
+      doc.setDrawColor(0);
+      doc.setLineWidth(0.2);
+      doc.line(center - signatureWidth / 2, y, center + signatureWidth / 2, y);
+      y += 3;
+      centered(SIGNATURE_LABELS[role], small);
+      if (signature) centered(formatSignedAt(signature), small - 1);
+      y += 2;
+    });
+    if (isUnsigned(data)) centered(UNSIGNED_LABEL, small, 'bold');
+    separator();
+  }
+
+  // --- POLICY ---
+  // Same sections as the A4 receipt, as plain text: bold markup is dropped, bullets stay as "- "
+  if (!isQuote(data) && store.policySections.length > 0) {
+    centered(POLICY_TITLE, small, 'bold');
+    store.policySections.forEach(section => {
+      const heading = [section.title, section.note].filter(Boolean).join(' ');
+      y += 1;
+      if (heading) centered(heading, small - 0.5, 'bold');
+      parsePolicyText(section.body).forEach(line => {
+        const text = line.segments.map(segment => segment.text).join('');
+        centered(line.bullet ? `- ${text}` : text, small - 0.5);
+      });
+    });
+  }
+  y += 2;
+  centered("Obrigado pela preferência!", small, 'bold');
+
+  return y + 4;
+};
+
+const THERMAL_PAPER_WIDTHS: Record<Exclude<ReceiptFormat, 'A4'>, number> = {
+  TERMICA_80: 80,
+  TERMICA_58: 58,
+};
+
+export const createThermalDoc = async (data: ReceiptData, store: StoreIdentity, format: Exclude<ReceiptFormat, 'A4'>): Promise<jsPDF> => {
+  const paperWidth = THERMAL_PAPER_WIDTHS[format];
+  // First pass only measures the height of the content
+  const height = await drawThermalReceipt(new jsPDF({ unit: 'mm', format: [paperWidth, 1000] }), data, store, paperWidth);
+  const doc = new jsPDF({ unit: 'mm', format: [paperWidth, Math.max(height, paperWidth + 1)] });
+  await drawThermalReceipt(doc, data, store, paperWidth);
+  return doc;
+};
+
+const createReceiptDoc = (data: ReceiptData, store: StoreIdentity, format: ReceiptFormat) =>
+  format === 'A4' ? createPDFDoc(data, store) : createThermalDoc(data, store, format);
+
+export const generateFormattedReceiptPDF = async (data: ReceiptData, store: StoreIdentity, format: ReceiptFormat) => {
+  if (format === 'A4') return generateReceiptPDF(data, store);
+  const doc = await createThermalDoc(data, store, format);
+  const safeName = data.name ? data.name.toUpperCase() : 'CLIENTE';
+  doc.save(`${getDocumentFilePrefix(data)} ${THERMAL_PAPER_WIDTHS[format]}MM - ${safeName}.pdf`);
+};
+
+// Shows the PDF with the print dialog already requested. The tab must be opened by the caller
+// during the click, before any await: popup blockers refuse window.open once the gesture is over.
+export const printReceipt = async (data: ReceiptData, store: StoreIdentity, format: ReceiptFormat, printWindow: Window) => {
+  const doc = await createReceiptDoc(data, store, format);
+  doc.autoPrint();
+  printWindow.location.href = doc.output('bloburl').toString();
+};
+
+// --- DELIVERY ORDER (ROMANEIO) ---
+// Goes with the driver: what to load, where to go and how much to collect. No prices on purpose.
+export const createDeliveryOrderDoc = async (data: ReceiptData, store: StoreIdentity): Promise<jsPDF> => {
+  const doc = new jsPDF();
+
+  const margin = 10;
+  const pageWidth = 210;
+  const contentWidth = pageWidth - (margin * 2);
+  const pageHeight = 297;
+
+  let y = 10;
+
+  await drawStoreHeader(doc, store);
+  y = 48;
+
+  // --- TITLE ---
+  doc.setTextColor(COLORS.textDark);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text("ROMANEIO DE ENTREGA", pageWidth / 2, y, { align: "center" });
+
+  y += 5;
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textGray);
+  doc.setFont("helvetica", "normal");
+  const issuedAt = data.issuedAt ? new Date(data.issuedAt) : new Date();
+  doc.text(`Venda ${data.saleCode?.toUpperCase() || '-'} · Emitida em ${issuedAt.toLocaleDateString('pt-BR')}`, pageWidth / 2, y, { align: "center" });
+
+  y += 6;
+
+  const delivery = data.delivery;
+  y = drawFieldRow(doc, y, [
+    { label: "DATA DA ENTREGA", text: delivery ? formatDeliveryDate(delivery.date) : 'A AGENDAR', share: 0.35 },
+    { label: "PERÍODO", text: delivery?.timeWindow || '', share: 0.4 },
+    { label: "STATUS", text: delivery?.status || '', share: 0.25 },
+  ]);
+  y = drawFieldRow(doc, y, [
+    { label: "CLIENTE", text: data.name, share: 0.6 },
+    { label: "CONTATOS", text: [data.contact1, data.contact2].filter(Boolean).join(' / '), share: 0.4 },
+  ]);
+  y = drawFieldRow(doc, y, [
+    { label: "RUA", text: data.street, share: 0.5 },
+    { label: "Nº", text: data.number, share: 0.1 },
+    { label: "COMPLEMENTO", text: data.complement, share: 0.4 },
+  ]);
+  y = drawFieldRow(doc, y, [
+    { label: "BAIRRO", text: data.neighborhood, share: 0.4 },
+    { label: "CIDADE", text: data.city, share: 0.4 },
+    { label: "CEP", text: data.cep || '', share: 0.2 },
+  ]);
+  y = drawFieldRow(doc, y, [
+    { label: "PONTO DE REFERÊNCIA", text: delivery?.referencePoint || '', share: 1 },
+  ]);
+
+  y += 6;
+
+  // --- ITEMS (no prices) ---
+  const cols: TableColumn[] = [
+    { name: "CONF.", w: 14, align: "center" },
+    { name: "QTD", w: 14, align: "center" },
+    { name: "CÓD", w: 22, align: "left" },
+    { name: "DESCRIÇÃO DO PRODUTO", w: contentWidth - 50, align: "left" },
+  ];
+
+  y = drawTableHeader(doc, ensurePageSpace(doc, y, 20), cols);
+
+  const items = getDeliveryItems(data.products);
+  items.forEach(p => {
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    const splitDesc = doc.splitTextToSize(p.name, cols[3].w - 4);
+    const rowH = Math.max(8, splitDesc.length * 4 + 4);
+
+    const rowY = ensurePageSpace(doc, y, rowH);
+    if (rowY !== y) y = drawTableHeader(doc, rowY, cols);
+
+    let x = margin;
+    // Checkbox for the driver to tick while loading
+    doc.setDrawColor(COLORS.textGray);
+    doc.rect(x + cols[0].w / 2 - 2, y + 2, 4, 4);
+    x += cols[0].w;
+
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(COLORS.textDark);
+    doc.text(p.quantity.toString(), x + cols[1].w / 2, y + 5.5, { align: "center" });
+    x += cols[1].w;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(p.code || '-', x + 2, y + 5.5);
+    x += cols[2].w;
+
+    doc.setFontSize(9);
+    doc.text(splitDesc, x + 2, y + 5.5);
+
+    doc.setDrawColor(COLORS.borderGray);
+    doc.setLineWidth(0.1);
+    doc.line(margin, y + rowH, margin + contentWidth, y + rowH);
+    y += rowH;
+  });
+
+  if (items.length === 0) {
+    doc.setFontSize(9);
+    doc.setTextColor(COLORS.textGray);
+    doc.text("- Nenhum item adicionado -", pageWidth / 2, y + 8, { align: "center" });
+    y += 14;
+  }
+
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(COLORS.textGray);
+  y += 5;
+  doc.text(`TOTAL DE VOLUMES: ${items.reduce((acc, p) => acc + p.quantity, 0)}`, margin + contentWidth, y, { align: "right" });
+  y += 6;
+
+  // --- OBSERVATION ---
+  if (data.observation) y = drawObservationBox(doc, y, data.observation);
+
+  // --- BALANCE TO COLLECT ---
+  const balance = getBalanceToCollect(data);
+  const hasToCollect = balance.amount > 0 || !balance.paymentInformed;
+  const showsUnknownNote = !balance.paymentInformed && balance.amount > 0;
+  const balanceBoxHeight = showsUnknownNote ? 16 : 12;
+  y = ensurePageSpace(doc, y, balanceBoxHeight + 4);
+  doc.setLineWidth(0.5);
+  doc.setDrawColor(hasToCollect ? COLORS.orange : COLORS.green);
+  doc.roundedRect(margin, y, contentWidth, balanceBoxHeight, 1, 1, 'S');
+  doc.setLineWidth(0.1);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.setTextColor(hasToCollect ? COLORS.orange : COLORS.green);
+  doc.text(
+    balance.amount > 0
+      ? `VALOR A RECEBER NA ENTREGA: ${balance.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`
+      : balance.paymentInformed ? "NADA A RECEBER NA ENTREGA" : "PAGAMENTO NÃO INFORMADO",
+    pageWidth / 2, y + 7.5, { align: "center" }
+  );
+  if (showsUnknownNote) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.text("PAGAMENTO NÃO INFORMADO NA VENDA: CONFIRA COM A LOJA ANTES DE ENTREGAR", pageWidth / 2, y + 12.5, { align: "center" });
+  }
+  y += balanceBoxHeight + 6;
+
+  // --- RECEIPT CONFIRMATION ---
+  y = ensurePageSpace(doc, y, 45);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textDark);
+  const confirmation = doc.splitTextToSize("Declaro que recebi os produtos acima relacionados em perfeito estado, conferidos na presença do entregador.", contentWidth);
+  doc.text(confirmation, margin, y);
+  y += confirmation.length * 3.5 + 18;
+
+  doc.setDrawColor(COLORS.textDark);
+  doc.setLineDashPattern([1, 1], 0);
+  doc.line(margin, y, margin + 110, y);
+  doc.line(margin + 125, y, margin + contentWidth, y);
+  doc.setLineDashPattern([], 0);
+
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textGray);
+  doc.text("Assinatura do Cliente / Recebedor", margin + 55, y + 5, { align: "center" });
+  doc.text("Data e Hora do Recebimento", margin + 125 + (contentWidth - 125) / 2, y + 5, { align: "center" });
+
+  y += 16;
+  doc.setLineDashPattern([1, 1], 0);
+  doc.line(margin, y, margin + 110, y);
+  doc.setLineDashPattern([], 0);
+  doc.text("Nome Legível e Documento", margin + 55, y + 5, { align: "center" });
+
+  doc.setFontSize(7);
+  doc.setTextColor(200, 200, 200);
+  doc.text(getFooterText(store), pageWidth / 2, Math.max(y + 15, pageHeight - 10), { align: "center" });
+
+  return doc;
+};
+
+export const generateDeliveryOrderPDF = async (data: ReceiptData, store: StoreIdentity) => {
+  const doc = await createDeliveryOrderDoc(data, store);
+  const safeName = data.name ? data.name.toUpperCase() : 'CLIENTE';
+  doc.save(`ROMANEIO - ${safeName}.pdf`);
+};
+
+// --- DAILY ROUTE SHEET ---
+// One sheet per day for the driver: load list first, then the stops grouped by city / neighborhood
+export const createRouteSheetDoc = async (route: DeliveryRoute, store: StoreIdentity): Promise<jsPDF> => {
+  const doc = new jsPDF();
+
+  const margin = 10;
+  const pageWidth = 210;
+  const contentWidth = pageWidth - (margin * 2);
+  const pageHeight = 297;
+  const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  let y = 10;
+
+  await drawStoreHeader(doc, store);
+  y = 48;
+
+  // --- TITLE ---
+  doc.setTextColor(COLORS.textDark);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text("ROTA DE ENTREGAS", pageWidth / 2, y, { align: "center" });
+
+  y += 5;
+  doc.setFontSize(9);
+  doc.setTextColor(COLORS.textGray);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `${formatDeliveryDate(route.date)} · ${route.stopCount} entrega(s) · A receber: ${formatBRL(route.totalToCollect)}`,
+    pageWidth / 2, y, { align: "center" }
+  );
+
+  y += 8;
+
+  // --- LOAD LIST ---
+  doc.setFillColor(COLORS.bgLight);
+  doc.setDrawColor(COLORS.borderGray);
+  doc.rect(margin, y, contentWidth, 6, 'F');
+  doc.setFontSize(7);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(COLORS.brandBlue);
+  doc.text("CARREGAR", margin + 2, y + 4);
+  doc.text("QTD", margin + contentWidth - 2, y + 4, { align: "right" });
+  y += 6;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textDark);
+  route.loadList.forEach(item => {
+    y = ensurePageSpace(doc, y, 5);
+    const [name] = doc.splitTextToSize(`${item.code ? `${item.code} · ` : ''}${item.name}`, contentWidth - 20);
+    doc.text(name, margin + 2, y + 3.5);
+    doc.setFont("helvetica", "bold");
+    doc.text(item.quantity.toString(), margin + contentWidth - 2, y + 3.5, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.setDrawColor(COLORS.borderGray);
+    doc.line(margin, y + 5, margin + contentWidth, y + 5);
+    y += 5;
+  });
+  if (route.loadList.length === 0) {
+    doc.setTextColor(COLORS.textGray);
+    doc.text("- Nenhuma entrega para esta data -", pageWidth / 2, y + 5, { align: "center" });
+    y += 8;
+  }
+
+  y += 6;
+
+  // --- STOPS ---
+  let stopNumber = 0;
+  route.groups.forEach(group => {
+    y = ensurePageSpace(doc, y, 30);
+    doc.setFillColor(COLORS.brandBlue);
+    doc.rect(margin, y, contentWidth, 6, 'F');
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.white);
+    doc.text(`${group.neighborhood} · ${group.city}`, margin + 2, y + 4.2);
+    doc.text(`${group.stops.length} entrega(s)`, margin + contentWidth - 2, y + 4.2, { align: "right" });
+    y += 8;
+
+    group.stops.forEach(stop => {
+      stopNumber++;
+      const r = stop.sale.receipt;
+      const address = `${r.street || ''}, ${r.number || 'S/N'}${r.complement ? ` - ${r.complement}` : ''}${r.cep ? ` · CEP ${r.cep}` : ''}`;
+      const itemsText = stop.items.map(item => `${item.quantity}x ${item.name}`).join('; ') || '-';
+
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      const splitItems = doc.splitTextToSize(`Itens: ${itemsText}`, contentWidth - 14);
+      const reference = r.delivery?.referencePoint ? doc.splitTextToSize(`Referência: ${r.delivery.referencePoint}`, contentWidth - 14) : [];
+      const boxHeight = 19 + (splitItems.length + reference.length) * 3.5;
+      y = ensurePageSpace(doc, y, boxHeight + 3);
+
+      doc.setDrawColor(COLORS.borderGray);
+      doc.setLineWidth(0.1);
+      doc.roundedRect(margin, y, contentWidth, boxHeight, 1, 1, 'S');
+
+      // Stop number
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(12);
+      doc.setTextColor(COLORS.brandBlue);
+      doc.text(stopNumber.toString(), margin + 5, y + 6.5, { align: "center" });
+
+      const textX = margin + 11;
+      doc.setFontSize(9);
+      doc.setTextColor(COLORS.textDark);
+      doc.text((r.name || 'CLIENTE').toUpperCase(), textX, y + 5);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.setTextColor(COLORS.textGray);
+      doc.text(`${r.saleCode?.toUpperCase() || 'S/ CÓDIGO'} · ${r.delivery?.timeWindow || ''}`, margin + contentWidth - 2, y + 5, { align: "right" });
+
+      let lineY = y + 9;
+      doc.setFontSize(8);
+      doc.setTextColor(COLORS.textDark);
+      doc.text(address, textX, lineY);
+      lineY += 3.5;
+      doc.text(`Contatos: ${[r.contact1, r.contact2].filter(Boolean).join(' / ') || '-'}`, textX, lineY);
+      lineY += 3.5;
+      if (reference.length) {
+        doc.setFont("helvetica", "italic");
+        doc.text(reference, textX, lineY);
+        lineY += reference.length * 3.5;
+        doc.setFont("helvetica", "normal");
+      }
+      doc.text(splitItems, textX, lineY);
+      lineY += splitItems.length * 3.5;
+
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(stop.balanceDue > 0 || !stop.paymentInformed ? COLORS.orange : COLORS.green);
+      doc.text(formatStopBalance(stop), textX, lineY + 1);
+
+      if (stop.mapsUrl) {
+        doc.setTextColor(COLORS.blue);
+        doc.setFont("helvetica", "normal");
+        doc.textWithLink("Abrir no Google Maps", margin + contentWidth - 2 - doc.getTextWidth("Abrir no Google Maps"), lineY + 1, { url: stop.mapsUrl });
+      }
+
+      y += boxHeight + 3;
+    });
+
+    y += 3;
+  });
+
+  doc.setFontSize(7);
+  doc.setTextColor(200, 200, 200);
+  doc.text(getFooterText(store), pageWidth / 2, Math.max(y + 10, pageHeight - 10), { align: "center" });
+
+  return doc;
+};
+
+export const getRouteSheetFileName = (route: DeliveryRoute) => `ROTA DE ENTREGAS - ${route.date}.pdf`;
+
+export const generateRouteSheetPDF = async (route: DeliveryRoute, store: StoreIdentity) => {
+  const doc = await createRouteSheetDoc(route, store);
+  doc.save(getRouteSheetFileName(route));
+};
+
+export const getRouteSheetBlob = async (route: DeliveryRoute, store: StoreIdentity): Promise<Blob> => {
+  const doc = await createRouteSheetDoc(route, store);
+  return doc.output('blob');
+};
+
+// --- RETURN / EXCHANGE RECEIPT ---
+// Always points back at the original sale; values returned are what the customer actually paid
+export const createReturnDoc = async (record: ReturnRecord, sale: ReceiptData, store: StoreIdentity): Promise<jsPDF> => {
+  const doc = new jsPDF();
+
+  const margin = 10;
+  const pageWidth = 210;
+  const contentWidth = pageWidth - (margin * 2);
+  const pageHeight = 297;
+  const formatBRL = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  let y = 10;
+
+  await drawStoreHeader(doc, store);
+  y = 48;
+
+  // --- TITLE ---
+  doc.setTextColor(COLORS.textDark);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text("COMPROVANTE DE TROCA/DEVOLUÇÃO", pageWidth / 2, y, { align: "center" });
+
+  y += 5;
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textGray);
+  doc.setFont("helvetica", "normal");
+  const createdAt = new Date(record.createdAt);
+  const saleDate = sale.date
+    ? new Date(sale.date + 'T12:00:00').toLocaleDateString('pt-BR')
+    : sale.issuedAt ? new Date(sale.issuedAt).toLocaleDateString('pt-BR') : '-';
+  doc.text(
+    `Nº ${record.code} · Emitido em ${createdAt.toLocaleDateString('pt-BR')} às ${createdAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`,
+    pageWidth / 2, y, { align: "center" }
+  );
+
+  y += 6;
+
+  y = drawFieldRow(doc, y, [
+    { label: "VENDA ORIGINAL", text: record.saleCode?.toUpperCase() || 'S/ CÓDIGO', share: 0.3 },
+    { label: "DATA DA VENDA", text: saleDate, share: 0.3 },
+    { label: "OPERAÇÃO", text: getReturnType(record), share: 0.4 },
+  ]);
+  y = drawFieldRow(doc, y, [
+    { label: "CLIENTE", text: sale.name, share: 0.6 },
+    { label: getDocumentLabel(sale.cpf), text: sale.cpf, share: 0.4 },
+  ]);
+  y = drawFieldRow(doc, y, [
+    { label: "MOTIVO", text: record.reason, share: 0.4 },
+    { label: "ATENDENTE", text: record.salesperson, share: 0.6 },
+  ]);
+  if (record.details) {
+    y = drawFieldRow(doc, y, [{ label: "DETALHES", text: record.details, share: 1 }]);
+  }
+
+  y += 6;
+
+  // --- ITEM TABLES ---
+  const cols: TableColumn[] = [
+    { name: "QTD", w: 14, align: "center" },
+    { name: "CÓD", w: 22, align: "left" },
+    { name: "DESCRIÇÃO DO PRODUTO", w: contentWidth - 96, align: "left" },
+    { name: "VALOR UNIT.", w: 30, align: "right" },
+    { name: "TOTAL", w: 30, align: "right" },
+  ];
+
+  const drawItemsTable = (title: string, rows: { quantity: number; code?: string; name: string; unitValue: number }[]) => {
+    y = ensurePageSpace(doc, y, 26);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textDark);
+    doc.text(title, margin, y + 3);
+    y = drawTableHeader(doc, y + 5, cols);
+
+    rows.forEach(row => {
+      doc.setFontSize(9);
+      doc.setFont("helvetica", "normal");
+      const splitDesc = doc.splitTextToSize(row.name, cols[2].w - 4);
+      const rowH = Math.max(8, splitDesc.length * 4 + 4);
+
+      const rowY = ensurePageSpace(doc, y, rowH);
+      if (rowY !== y) y = drawTableHeader(doc, rowY, cols);
+
+      let x = margin;
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(COLORS.textDark);
+      doc.text(row.quantity.toString(), x + cols[0].w / 2, y + 5.5, { align: "center" });
+      x += cols[0].w;
+
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(8);
+      doc.text(row.code || '-', x + 2, y + 5.5);
+      x += cols[1].w;
+
+      doc.setFontSize(9);
+      doc.text(splitDesc, x + 2, y + 5.5);
+      x += cols[2].w;
+
+      doc.text(formatBRL(row.unitValue), x + cols[3].w - 2, y + 5.5, { align: "right" });
+      x += cols[3].w;
+
+      doc.setFont("helvetica", "bold");
+      doc.text(formatBRL(row.unitValue * row.quantity), x + cols[4].w - 2, y + 5.5, { align: "right" });
+
+      doc.setDrawColor(COLORS.borderGray);
+      doc.setLineWidth(0.1);
+      doc.line(margin, y + rowH, margin + contentWidth, y + rowH);
+      y += rowH;
+    });
+
+    y += 6;
+  };
+
+  drawItemsTable("ITENS DEVOLVIDOS PELO CLIENTE", record.returnedLines);
+  if (record.exchangeItems.length > 0) {
+    drawItemsTable("ITENS ENTREGUES NA TROCA", record.exchangeItems.map(p => ({ ...p, unitValue: p.price })));
+  }
+
+  // --- SETTLEMENT ---
+  const totalsWidth = 90;
+  const totalsX = pageWidth - margin - totalsWidth;
+  y = ensurePageSpace(doc, y, 34);
+
+  const drawTotalLine = (label: string, value: string, color: string = COLORS.textGray) => {
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(color);
+    doc.text(label, totalsX, y);
+    doc.text(value, totalsX + totalsWidth, y, { align: "right" });
+    y += 5;
+  };
+
+  drawTotalLine("Crédito dos itens devolvidos", formatBRL(record.returnedValue));
+  if (record.exchangeItems.length > 0) {
+    drawTotalLine("Valor dos itens da troca", formatBRL(record.exchangeValue));
+  }
+  y += 1;
+
+  const payable = record.difference > 0;
+  const settled = record.difference === 0;
+  const boxColor = settled ? COLORS.green : payable ? COLORS.orange : COLORS.brandBlue;
+  const boxLabel = settled ? "SEM DIFERENÇA A ACERTAR" : payable ? "DIFERENÇA PAGA PELO CLIENTE" : "VALOR RESTITUÍDO AO CLIENTE";
+
+  doc.setLineWidth(0.5);
+  doc.setDrawColor(boxColor);
+  doc.roundedRect(totalsX, y, totalsWidth, 12, 1, 1, 'S');
+  doc.setLineWidth(0.1);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.setTextColor(boxColor);
+  doc.text(boxLabel, totalsX + 3, y + 5);
+  if (!settled) {
+    doc.setFontSize(11);
+    doc.text(formatBRL(Math.abs(record.difference)), totalsX + totalsWidth - 3, y + 5, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.text(`Forma: ${record.settlementMethod || '-'}`, totalsX + 3, y + 9.5);
+  }
+  y += 20;
+
+  // --- SIGNATURES ---
+  y = ensurePageSpace(doc, y, 40);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textDark);
+  const declaration = doc.splitTextToSize(
+    `Declaro estar de acordo com a ${getReturnType(record).toLowerCase()} acima, referente à venda ${record.saleCode?.toUpperCase() || 'S/ CÓDIGO'}, e com o acerto de valores informado.`,
+    contentWidth
+  );
+  doc.text(declaration, margin, y);
+  y += declaration.length * 3.5 + 18;
+
+  doc.setDrawColor(COLORS.textDark);
+  doc.setLineDashPattern([1, 1], 0);
+  doc.line(margin, y, margin + 85, y);
+  doc.line(margin + contentWidth - 85, y, margin + contentWidth, y);
+  doc.setLineDashPattern([], 0);
+
+  doc.setFontSize(8);
+  doc.setTextColor(COLORS.textGray);
+  doc.text("Assinatura do Cliente", margin + 42.5, y + 5, { align: "center" });
+  doc.text("Responsável pela Loja", margin + contentWidth - 42.5, y + 5, { align: "center" });
+
+  doc.setFontSize(7);
+  doc.setTextColor(200, 200, 200);
+  doc.text(getFooterText(store), pageWidth / 2, Math.max(y + 15, pageHeight - 10), { align: "center" });
+
+  return doc;
+};
+
+export const generateReturnPDF = async (record: ReturnRecord, sale: ReceiptData, store: StoreIdentity) => {
+  const doc = await createReturnDoc(record, sale, store);
+  const safeName = sale.name ? sale.name.toUpperCase() : 'CLIENTE';
+  doc.save(`TROCA-DEVOLUCAO ${record.code} - ${safeName}.pdf`);
+};
+
+// --- WARRANTY CERTIFICATE ---
+// One page per product; expiry dates are computed from the purchase date
+export const createWarrantyCertificateDoc = async (data: ReceiptData, store: StoreIdentity, productIndexes: number[]): Promise<jsPDF> => {
+  const doc = new jsPDF();
+
+  const margin = 10;
+  const pageWidth = 210;
+  const contentWidth = pageWidth - (margin * 2);
+  const pageHeight = 297;
+  const purchaseDate = getPurchaseDate(data);
+
+  let y = 10;
+
+  for (let i = 0; i < productIndexes.length; i++) {
+    const product = data.products[productIndexes[i]];
+    if (!product) continue;
+    if (i > 0) doc.addPage();
+
+    const dates = getWarrantyDates(product, purchaseDate);
+
+    await drawStoreHeader(doc, store);
+    y = 48;
+
+    // --- TITLE ---
+    doc.setTextColor(COLORS.textDark);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.text("CERTIFICADO DE GARANTIA", pageWidth / 2, y, { align: "center" });
+
+    y += 5;
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textGray);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Venda ${data.saleCode?.toUpperCase() || '-'} · Compra em ${formatWarrantyDate(purchaseDate)}`, pageWidth / 2, y, { align: "center" });
+
+    y += 6;
+
+    y = drawFieldRow(doc, y, [
+      { label: "CLIENTE", text: data.name, share: 0.6 },
+      { label: getDocumentLabel(data.cpf), text: data.cpf, share: 0.4 },
+    ]);
+    y = drawFieldRow(doc, y, [
+      { label: "CÓDIGO DA VENDA", text: data.saleCode?.toUpperCase() || '', share: 0.3 },
+      { label: "DATA DA COMPRA", text: formatWarrantyDate(purchaseDate), share: 0.3 },
+      { label: "VENDEDOR", text: data.salesperson, share: 0.4 },
+    ]);
+
+    y += 6;
+
+    // --- PRODUCT ---
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    const splitName = doc.splitTextToSize(product.name.toUpperCase(), contentWidth - 70);
+    const productBoxH = Math.max(26, splitName.length * 5 + 14);
+
+    doc.setDrawColor(COLORS.borderGray);
+    doc.setFillColor(COLORS.bgLight);
+    doc.roundedRect(margin, y, contentWidth, productBoxH, 2, 2, 'FD');
+
+    doc.setFontSize(6);
+    doc.setTextColor(COLORS.textGray);
+    doc.text("PRODUTO", margin + 4, y + 5);
+    doc.setFontSize(11);
+    doc.setTextColor(COLORS.textDark);
+    doc.text(splitName, margin + 4, y + 11);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textGray);
+    doc.text(`Quantidade: ${product.quantity}`, margin + 4, y + 11 + splitName.length * 5);
+
+    const barcodeX = margin + contentWidth - 62;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(6);
+    doc.text("CÓDIGO", barcodeX, y + 5);
+    if (product.code) {
+      try {
+        const canvas = document.createElement('canvas');
+        JsBarcode(canvas, product.code, {
+          format: "CODE128", width: 2, height: 50, displayValue: false, margin: 0
+        });
+        doc.addImage(canvas.toDataURL('image/png'), 'PNG', barcodeX, y + 7, 58, 10);
+      } catch(e) { /* ignore */ }
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      doc.setTextColor(COLORS.textDark);
+      doc.text(product.code, barcodeX + 29, y + 21, { align: "center" });
+    } else {
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      doc.setTextColor(COLORS.textDark);
+      doc.text("SEM CÓDIGO", barcodeX, y + 12);
+    }
+
+    y += productBoxH + 6;
+
+    // --- COVERAGE ---
+    const drawCoverage = (x: number, w: number, title: string, period: string, expiry: string | null) => {
+      doc.setLineWidth(0.5);
+      doc.setDrawColor(expiry ? COLORS.brandBlue : COLORS.borderGray);
+      doc.roundedRect(x, y, w, 24, 1, 1, 'S');
+      doc.setLineWidth(0.1);
+
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(7);
+      doc.setTextColor(COLORS.textGray);
+      doc.text(title, x + w / 2, y + 5, { align: "center" });
+      doc.setFontSize(9);
+      doc.setTextColor(COLORS.textDark);
+      doc.text(period, x + w / 2, y + 10.5, { align: "center" });
+      doc.setFontSize(7);
+      doc.setTextColor(COLORS.textGray);
+      doc.text("VÁLIDA ATÉ", x + w / 2, y + 15.5, { align: "center" });
+      doc.setFontSize(12);
+      doc.setTextColor(expiry ? COLORS.brandBlue : COLORS.textGray);
+      doc.text(expiry ? formatWarrantyDate(expiry) : 'NÃO INFORMADA', x + w / 2, y + 21, { align: "center" });
+    };
+
+    const boxW = (contentWidth - 6) / 2;
+    drawCoverage(margin, boxW, "GARANTIA DA LOJA", `${STORE_WARRANTY_DAYS} DIAS`, dates.storeExpiry);
+    drawCoverage(margin + boxW + 6, boxW, "GARANTIA DE FÁBRICA", getFactoryWarrantyLabel(product) || '-', dates.factoryExpiry);
+
+    y += 32;
+
+    // --- TERMS ---
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.brandBlue);
+    doc.text("CONDIÇÕES DA GARANTIA", margin, y);
+    y += 5;
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textDark);
+    WARRANTY_TERMS.forEach((term, index) => {
+      const splitTerm = doc.splitTextToSize(`${index + 1}. ${term}`, contentWidth);
+      doc.text(splitTerm, margin, y);
+      y += splitTerm.length * 3.5 + 1.5;
+    });
+
+    // --- SIGNATURE ---
+    y += 18;
+    doc.setDrawColor(COLORS.textDark);
+    doc.setLineDashPattern([1, 1], 0);
+    doc.line(pageWidth / 2 - 45, y, pageWidth / 2 + 45, y);
+    doc.setLineDashPattern([], 0);
+    doc.setFontSize(8);
+    doc.setTextColor(COLORS.textGray);
+    doc.text(`${store.name} - Responsável`, pageWidth / 2, y + 5, { align: "center" });
+
+    doc.setFontSize(7);
+    doc.setTextColor(200, 200, 200);
+    doc.text(getFooterText(store), pageWidth / 2, pageHeight - 10, { align: "center" });
+  }
+
+  return doc;
+};
+
+export const generateWarrantyCertificatePDF = async (data: ReceiptData, store: StoreIdentity, productIndexes: number[]) => {
+  const doc = await createWarrantyCertificateDoc(data, store, productIndexes);
+  const safeName = data.name ? data.name.toUpperCase() : 'CLIENTE';
+  const suffix = productIndexes.length === 1 ? ` - ${data.products[productIndexes[0]]?.code || productIndexes[0] + 1}` : '';
+  doc.save(`GARANTIA - ${safeName}${suffix}.pdf`);
+};
@@ -0,0 +1,68 @@
+// Brazilian phone helpers: E.164 normalization, masking and WhatsApp deep links
+
+export interface PhoneValidation {
+  valid: boolean;
+  isMobile: boolean;
+  error?: string;
+}
+
+const COUNTRY_CODE = '55';
+// Numbers typed without area code belong to the store's region (Belém)
+export const DEFAULT_AREA_CODE = '91';
+
+const onlyDigits = (value: string) => (value || '').replace(/\D/g, '');
+
+// National digits (area code + number), without country code or trunk prefix
+const getNationalDigits = (value: string): string => {
+  let digits = onlyDigits(value);
+  const hasCountryCode = (value || '').trim().startsWith('+') || digits.length > 11;
+  if (hasCountryCode && digits.startsWith(COUNTRY_CODE)) digits = digits.slice(COUNTRY_CODE.length);
+  return digits.replace(/^0+/, '').slice(0, 11);
+};
+
+// Progressive mask while typing: +55 91 91234-5678 (mobile) / +55 91 3212-3456 (landline)
+export const maskPhone = (value: string): string => {
+  const digits = getNationalDigits(value);
+  if (!digits) return '';
+
+  const areaCode = digits.slice(0, 2);
+  const number = digits.slice(2);
+  if (!number) return `+${COUNTRY_CODE} ${areaCode}`;
+  if (number.length <= 4) return `+${COUNTRY_CODE} ${areaCode} ${number}`;
+
+  const split = number.length === 9 ? 5 : 4;
+  return `+${COUNTRY_CODE} ${areaCode} ${number.slice(0, split)}-${number.slice(split)}`;
+};
+
+// Fills in the default area code for local numbers, then applies the mask
+export const normalizePhone = (value: string, areaCode: string = DEFAULT_AREA_CODE): string => {
+  const digits = getNationalDigits(value);
+  const withAreaCode = digits.length === 8 || digits.length === 9 ? areaCode + digits : digits;
+  return maskPhone(withAreaCode);
+};
+
+// An empty contact is allowed; anything typed must be a complete landline or mobile number
+export const validatePhone = (value: string): PhoneValidation => {
+  const digits = getNationalDigits(value);
+  if (!digits) return { valid: true, isMobile: false };
+
+  if (digits.length < 10) return { valid: false, isMobile: false, error: 'Telefone incompleto' };
+  if (!/^[1-9][1-9]/.test(digits)) return { valid: false, isMobile: false, error: 'DDD inválido' };
+
+  const isMobile = digits.length === 11;
+  if (isMobile && digits[2] !== '9') return { valid: false, isMobile, error: 'Celular deve começar com 9' };
+  if (!isMobile && !/[2-5]/.test(digits[2])) return { valid: false, isMobile, error: 'Telefone inválido' };
+
+  return { valid: true, isMobile };
+};
+
+// E.164 without the "+", as expected by wa.me (e.g. 5591912345678); null when not a valid number
+export const toWhatsAppNumber = (value: string): string | null => {
+  const digits = getNationalDigits(value);
+  if (!digits || !validatePhone(value).valid) return null;
+  return COUNTRY_CODE + digits;
+};
+
+// Opens the chat straight to the customer when a number is known, otherwise lets WhatsApp ask
+export const getWhatsAppUrl = (text: string, phone?: string | null): string =>
+  `https://wa.me/${phone || ''}?text=${encodeURIComponent(text)}`;
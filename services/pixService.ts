@@ -0,0 +1,130 @@
+import { PixKeyType, ReceiptData } from '../types';
+import { calculateTotals } from './pricingService';
+import { isValidCPF } from './documentService';
+import { getPaymentStatus } from './paymentService';
+import { isQuote } from './quoteService';
+
+// Static PIX "BR Code" (EMV QR Code, Manual de Padrões para Iniciação do Pix - BACEN)
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// EMV fields only accept plain ASCII; names and cities are also length-limited
+const toEmvText = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .\-]/g, '')
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength);
+
+// ID + two-digit length + value
+const emvField = (id: string, value: string) => `${id}${value.length.toString().padStart(2, '0')}${value}`;
+
+// CRC16-CCITT (polynomial 0x1021, initial 0xFFFF), as required for field 63
+export const crc16 = (payload: string) => {
+  let crc = 0xFFFF;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xFFFF;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export const PIX_KEY_TYPES: PixKeyType[] = ['CPF/CNPJ', 'TELEFONE', 'E-MAIL', 'ALEATÓRIA'];
+
+const RANDOM_KEY_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// For keys saved before the type was asked. A bare 10-11 digit number that is not a valid CPF
+// is a phone with DDD, e.g. "91993812592".
+export const guessPixKeyType = (key: string): PixKeyType => {
+  const value = key.trim();
+  if (value.includes('@')) return 'E-MAIL';
+  if (RANDOM_KEY_PATTERN.test(value)) return 'ALEATÓRIA';
+  if (value.startsWith('+') || value.includes('(')) return 'TELEFONE';
+  const digits = onlyDigits(value);
+  if ((digits.length === 10 || digits.length === 11) && !isValidCPF(digits)) return 'TELEFONE';
+  return 'CPF/CNPJ';
+};
+
+// Keys as typed in the settings: "(91) 99381-2592" -> "+5591993812592", "123.456.789-09" -> "12345678909".
+// E-mails and random keys (EVP) are only lowercased.
+export const normalizePixKey = (key: string, type: PixKeyType = guessPixKeyType(key)) => {
+  const value = key.trim();
+  const digits = onlyDigits(value);
+  switch (type) {
+    case 'TELEFONE':
+      // Without a country code the number is Brazilian (DDD + number)
+      return value.startsWith('+') || digits.length > 11 ? `+${digits}` : `+55${digits}`;
+    case 'E-MAIL':
+    case 'ALEATÓRIA':
+      return value.toLowerCase();
+    default:
+      return digits || value;
+  }
+};
+
+// Transaction id: letters and digits only, up to 25; "***" when the sale has no code yet
+export const getPixTxid = (saleCode: string) => (saleCode || '').toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 25) || '***';
+
+export interface PixCharge {
+  key: string;
+  keyType?: PixKeyType;
+  merchantName: string;
+  merchantCity: string;
+  amount: number;
+  txid: string;
+}
+
+export const buildPixPayload = ({ key, keyType, merchantName, merchantCity, amount, txid }: PixCharge) => {
+  const payload = [
+    emvField('00', '01'), // Payload format indicator
+    emvField('26', emvField('00', 'br.gov.bcb.pix') + emvField('01', normalizePixKey(key, keyType))), // Merchant account information
+    emvField('52', '0000'), // Merchant category code
+    emvField('53', '986'), // Currency: BRL
+    amount > 0 ? emvField('54', amount.toFixed(2)) : '',
+    emvField('58', 'BR'),
+    emvField('59', toEmvText(merchantName, 25) || 'LOJA'),
+    emvField('60', toEmvText(merchantCity, 15) || 'BRASIL'),
+    emvField('62', emvField('05', getPixTxid(txid))), // Additional data: txid
+    '6304',
+  ].join('');
+  return payload + crc16(payload);
+};
+
+export interface ReceiptPix {
+  payload: string;
+  amount: number;
+  label: 'VALOR TOTAL' | 'SALDO A RECEBER';
+}
+
+// Quotes charge the total; sales charge what is still open (nothing once QUITADO)
+export const getPixAmount = (receipt: ReceiptData): Pick<ReceiptPix, 'amount' | 'label'> => {
+  const total = calculateTotals(receipt).total;
+  const status = isQuote(receipt) ? null : getPaymentStatus(receipt.payments, total);
+  return status
+    ? { amount: status.balanceDue, label: 'SALDO A RECEBER' }
+    : { amount: total, label: 'VALOR TOTAL' };
+};
+
+// PIX charge printed on the receipt / sent on WhatsApp; null without a key or with nothing to pay
+export const getReceiptPix = (receipt: ReceiptData, store: { name: string; pixKey?: string; pixKeyType?: PixKeyType; branch: { city: string } }): ReceiptPix | null => {
+  if (!store.pixKey?.trim()) return null;
+  const { amount, label } = getPixAmount(receipt);
+  if (amount <= 0) return null;
+  return {
+    amount,
+    label,
+    payload: buildPixPayload({
+      key: store.pixKey,
+      keyType: store.pixKeyType,
+      merchantName: store.name,
+      merchantCity: store.branch.city,
+      amount,
+      txid: receipt.saleCode,
+    }),
+  };
+};
@@ -0,0 +1,62 @@
+import { PolicySection } from '../types';
+
+export const POLICY_TITLE = 'POLÍTICA DE TROCAS E DEVOLUÇÕES';
+
+// The policy as it was printed before it became editable
+export const DEFAULT_POLICY_SECTIONS: PolicySection[] = [
+  {
+    id: 'arrependimento',
+    title: 'DIREITO DE ARREPENDIMENTO',
+    note: '(Art. 49 do CDC):',
+    body: 'O cliente tem o prazo de até **7 (sete) dias corridos** para desistir da compra, contados a partir do recebimento do produto, desde que esteja sem uso e com lacre intacto.\n- Compras online: frete de devolução por conta da empresa.',
+  },
+  {
+    id: 'loja-fisica',
+    title: 'COMPRAS EM LOJA FÍSICA:',
+    body: 'Compras realizadas em loja física não possuem direito de arrependimento, conforme o Código de Defesa do Consumidor, exceto em casos de defeito de fabricação.',
+  },
+  {
+    id: 'defeitos',
+    title: 'DEFEITOS DE FABRICAÇÃO (Garantia Legal):',
+    body: '- Garantia legal de 90 (noventa) dias, conforme o CDC.\n- Após esse prazo, aplicar-se-á a garantia contratual do fabricante, quando houver, conforme certificado.\n- A garantia cobre exclusivamente o que está especificado na etiqueta e no certificado de cada produto.',
+  },
+];
+
+export const DEFAULT_OBSERVATION_TEMPLATES = ['ENTREGAR APÓS 14H', 'CLIENTE RETIRA NA LOJA'];
+
+export interface PolicySegment {
+  text: string;
+  bold: boolean;
+}
+
+export interface PolicyLine {
+  bullet: boolean;
+  segments: PolicySegment[];
+}
+
+// "- texto com **negrito**" -> { bullet: true, segments: [texto com ][negrito] }
+export const parsePolicyText = (body: string): PolicyLine[] =>
+  body
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const bullet = /^[-•]\s+/.test(line);
+      const text = bullet ? line.replace(/^[-•]\s+/, '') : line;
+      const segments = text
+        .split(/(\*\*[^*]+\*\*)/)
+        .filter(Boolean)
+        .map(part => part.startsWith('**') && part.endsWith('**') && part.length > 4
+          ? { text: part.slice(2, -2), bold: true }
+          : { text: part, bold: false });
+      return { bullet, segments };
+    });
+
+const generateSectionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPolicySection = (): PolicySection => ({
+  id: generateSectionId(),
+  title: '',
+  body: '',
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_DATA, Product, ReceiptData } from '../types';
+import { allocateCents, calculateTotals } from './pricingService';
+import { DEFAULT_PROMOTIONS, evaluatePromotions } from './promotionService';
+import { parseCatalogName } from './catalogService';
+
+const SALE_DATE = '2025-06-10';
+
+const BASE_CASAL: Product = { name: 'BASE BOX BILÚ 40CM CASAL PRETO', price: 550, quantity: 1 };
+const COLCHAO_CASAL: Product = { name: 'COLCHÃO AIRTECH SPRINGPOCKET 25CM CASAL BEGE', price: 1450, quantity: 1 };
+const TRAVESSEIRO: Product = { name: 'TRAVESSEIRO FLOCOS CONFORTO 20CM 60X40 BRANCO', price: 30, quantity: 1 };
+
+// Receipt with the default promotions evaluated the same way the form does
+const makeReceipt = (products: Product[], overrides: Partial<ReceiptData> = {}): ReceiptData => ({
+  ...INITIAL_DATA,
+  products,
+  appliedPromotions: evaluatePromotions(products, DEFAULT_PROMOTIONS, parseCatalogName, SALE_DATE),
+  ...overrides,
+});
+
+describe('allocateCents', () => {
+  it('splits an exact amount proportionally', () => {
+    expect(allocateCents(1000, [1, 1, 2])).toEqual([250, 250, 500]);
+  });
+
+  it('hands the leftover cents to the largest remainders', () => {
+    const parts = allocateCents(100, [1, 1, 1]);
+    expect(parts).toEqual([34, 33, 33]);
+    expect(parts.reduce((a, b) => a + b, 0)).toBe(100);
+  });
+
+  it('always adds up to the total', () => {
+    const parts = allocateCents(1001, [3333, 3333, 3334]);
+    expect(parts.reduce((a, b) => a + b, 0)).toBe(1001);
+    expect(parts).toEqual([334, 333, 334]);
+  });
+
+  it('returns zeros without an amount or weights', () => {
+    expect(allocateCents(0, [1, 2])).toEqual([0, 0]);
+    expect(allocateCents(500, [0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe('calculateTotals', () => {
+  it('sums the lines without discounts', () => {
+    const totals = calculateTotals(makeReceipt([{ ...COLCHAO_CASAL, quantity: 2 }, { ...TRAVESSEIRO, price: 0.1, quantity: 3 }], { appliedPromotions: [] }));
+    expect(totals.subtotal).toBe(2900.3);
+    expect(totals.totalDiscount).toBe(0);
+    expect(totals.total).toBe(2900.3);
+  });
+
+  it('prices the base of a base + mattress combo at the target price', () => {
+    const totals = calculateTotals(makeReceipt([BASE_CASAL, COLCHAO_CASAL]));
+    expect(totals.promotions.map(p => p.ruleId)).toEqual(['combo-casal']);
+    expect(totals.promotionDiscount).toBe(300);
+    expect(totals.lines[0].net).toBe(250);
+    expect(totals.lines[1].net).toBe(1450);
+    expect(totals.total).toBe(1700);
+  });
+
+  it('discounts only one base per mattress', () => {
+    const totals = calculateTotals(makeReceipt([{ ...BASE_CASAL, quantity: 2 }, COLCHAO_CASAL]));
+    expect(totals.promotionDiscount).toBe(300);
+    expect(totals.total).toBe(2250);
+  });
+
+  it('does not apply the combo to a base without a mattress of the same size', () => {
+    const colchaoQueen = { ...COLCHAO_CASAL, name: 'COLCHÃO AIRTECH SPRINGPOCKET 25CM QUEEN BEGE' };
+    const totals = calculateTotals(makeReceipt([BASE_CASAL, colchaoQueen]));
+    expect(totals.promotions).toEqual([]);
+    expect(totals.total).toBe(2000);
+  });
+
+  it('gives the pillow for free', () => {
+    const totals = calculateTotals(makeReceipt([COLCHAO_CASAL, TRAVESSEIRO]));
+    expect(totals.promotions.map(p => p.ruleId)).toEqual(['travesseiro-brinde']);
+    expect(totals.lines[1].net).toBe(0);
+    expect(totals.total).toBe(1450);
+  });
+
+  it('applies a percentage discount over the subtotal', () => {
+    const totals = calculateTotals(makeReceipt([COLCHAO_CASAL], { discountType: 'percentage', discountValue: 10 }));
+    expect(totals.manualDiscount).toBe(145);
+    expect(totals.total).toBe(1305);
+  });
+
+  it('applies a fixed discount after the promotions', () => {
+    const totals = calculateTotals(makeReceipt([BASE_CASAL, COLCHAO_CASAL], { discountType: 'fixed', discountValue: 100 }));
+    expect(totals.promotionDiscount).toBe(300);
+    expect(totals.manualDiscount).toBe(100);
+    expect(totals.totalDiscount).toBe(400);
+    expect(totals.total).toBe(1600);
+  });
+
+  it('caps the manual discount at what is left to pay', () => {
+    const totals = calculateTotals(makeReceipt([COLCHAO_CASAL], { discountType: 'fixed', discountValue: 5000 }));
+    expect(totals.manualDiscount).toBe(1450);
+    expect(totals.total).toBe(0);
+  });
+
+  it('splits the manual discount over the lines to the cent', () => {
+    const products = [
+      { ...TRAVESSEIRO, name: 'A', price: 10 },
+      { ...TRAVESSEIRO, name: 'B', price: 10 },
+      { ...TRAVESSEIRO, name: 'C', price: 10 },
+    ];
+    const totals = calculateTotals(makeReceipt(products, { appliedPromotions: [], discountType: 'fixed', discountValue: 1 }));
+    expect(totals.lines.map(l => l.manualDiscount)).toEqual([0.34, 0.33, 0.33]);
+    expect(totals.lines.map(l => l.net)).toEqual([9.66, 9.67, 9.67]);
+    expect(totals.total).toBe(29);
+  });
+
+  it('charges the delivery fee on top of the discounts', () => {
+    const totals = calculateTotals(makeReceipt([COLCHAO_CASAL], {
+      discountType: 'fixed',
+      discountValue: 50,
+      delivery: { date: SALE_DATE, timeWindow: '', fee: 40, status: 'AGENDADA', referencePoint: '' },
+    }));
+    expect(totals.deliveryFee).toBe(40);
+    expect(totals.total).toBe(1440);
+  });
+});
@@ -0,0 +1,115 @@
+import { AppliedPromotion, Product, ReceiptData } from '../types';
+
+export interface PricedLine {
+  index: number;
+  product: Product;
+  gross: number; // price x quantity
+  promotionDiscount: number;
+  manualDiscount: number; // Share of the salesperson discount allocated to this line
+  net: number;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  promotions: AppliedPromotion[];
+  promotionDiscount: number;
+  manualDiscount: number;
+  totalDiscount: number;
+  deliveryFee: number;
+  total: number;
+}
+
+// All money math runs in integer cents and is converted back once at the end
+export const toCents = (value: number) => Math.round((value || 0) * 100);
+const fromCents = (cents: number) => cents / 100;
+
+export const roundToCents = (value: number) => fromCents(toCents(value));
+
+// Splits `totalCents` proportionally to `weights` so the parts add up exactly (largest remainder)
+export const allocateCents = (totalCents: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  if (totalCents === 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const raw = weights.map(w => (totalCents * w) / weightSum);
+  const parts = raw.map(Math.floor);
+  let remainder = totalCents - parts.reduce((a, b) => a + b, 0);
+
+  raw
+    .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ i }) => {
+      if (remainder > 0) {
+        parts[i] += 1;
+        remainder -= 1;
+      }
+    });
+
+  return parts;
+};
+
+// Receipts archived before the promotion engine only carry the merged bundle discount
+const getPromotions = (data: ReceiptData, grossCents: number[]): AppliedPromotion[] => {
+  if (data.appliedPromotions) return data.appliedPromotions;
+  if (!data.bundleDiscount) return [];
+
+  const shares = allocateCents(toCents(data.bundleDiscount), grossCents);
+  return [{
+    ruleId: 'legacy',
+    label: data.bundleLabel || 'Desconto Promocional',
+    amount: roundToCents(data.bundleDiscount),
+    lines: shares
+      .map((cents, index) => ({ index, quantity: data.products[index].quantity, amount: fromCents(cents) }))
+      .filter(line => line.amount > 0),
+  }];
+};
+
+// Single source of truth for receipt totals (form, PDF and AI message)
+export const calculateTotals = (data: ReceiptData): PriceBreakdown => {
+  const grossCents = data.products.map(p => toCents(p.price * p.quantity));
+  const subtotalCents = grossCents.reduce((a, b) => a + b, 0);
+
+  const promotions = getPromotions(data, grossCents);
+  const promoCents = data.products.map(() => 0);
+  promotions.forEach(promo => {
+    promo.lines.forEach(line => {
+      if (line.index < promoCents.length) promoCents[line.index] += toCents(line.amount);
+    });
+  });
+  // A line can never be discounted below zero
+  const cappedPromoCents = promoCents.map((cents, i) => Math.min(cents, grossCents[i]));
+  const promotionCents = cappedPromoCents.reduce((a, b) => a + b, 0);
+
+  const afterPromoCents = grossCents.map((gross, i) => gross - cappedPromoCents[i]);
+  const remainingCents = subtotalCents - promotionCents;
+
+  // Salesperson discount: fixed amount or percentage of the subtotal, capped at what is left
+  const requestedManualCents = data.discountType === 'percentage'
+    ? Math.round(subtotalCents * ((data.discountValue || 0) / 100))
+    : toCents(data.discountValue);
+  const manualCents = Math.min(Math.max(0, requestedManualCents), remainingCents);
+  const manualShares = allocateCents(manualCents, afterPromoCents);
+
+  // Delivery fee is charged on top and never discounted
+  const deliveryCents = Math.max(0, toCents(data.delivery?.fee || 0));
+
+  const lines: PricedLine[] = data.products.map((product, index) => ({
+    index,
+    product,
+    gross: fromCents(grossCents[index]),
+    promotionDiscount: fromCents(cappedPromoCents[index]),
+    manualDiscount: fromCents(manualShares[index]),
+    net: fromCents(afterPromoCents[index] - manualShares[index]),
+  }));
+
+  return {
+    lines,
+    subtotal: fromCents(subtotalCents),
+    promotions,
+    promotionDiscount: fromCents(promotionCents),
+    manualDiscount: fromCents(manualCents),
+    totalDiscount: fromCents(promotionCents + manualCents),
+    deliveryFee: fromCents(deliveryCents),
+    total: fromCents(remainingCents - manualCents + deliveryCents),
+  };
+};
@@ -0,0 +1,185 @@
+import { AppliedPromotion, Product, ProductAttributes, PromotionCondition, PromotionRule } from '../types';
+
+const PROMOTIONS_STORAGE_KEY = 'belconfort_promotions';
+
+// Promotions that used to be hard-coded in App.tsx (base+mattress combos and the free pillow)
+export const DEFAULT_PROMOTIONS: PromotionRule[] = [
+  {
+    id: 'combo-casal',
+    label: 'Desconto Combo Casal (Base+Colchão)',
+    active: true,
+    target: { category: 'BASE', sizes: ['CASAL'] },
+    requires: { category: 'COLCHÃO', sizes: ['CASAL'], pairing: 'perUnit' },
+    reward: { type: 'targetPrice', price: 250 },
+    priority: 10,
+    stackable: false,
+  },
+  {
+    id: 'combo-queen',
+    label: 'Desconto Combo Queen (Base+Colchão)',
+    active: true,
+    target: { category: 'BASE', sizes: ['QUEEN'] },
+    requires: { category: 'COLCHÃO', sizes: ['QUEEN'], pairing: 'perUnit' },
+    reward: { type: 'targetPrice', price: 300 },
+    priority: 10,
+    stackable: false,
+  },
+  {
+    id: 'combo-super-king',
+    label: 'Desconto Combo Super King (Base+Colchão)',
+    active: true,
+    target: { category: 'BASE', sizes: ['SUPER KING'] },
+    requires: { category: 'COLCHÃO', sizes: ['SUPER KING'], pairing: 'perUnit' },
+    reward: { type: 'targetPrice', price: 350 },
+    priority: 10,
+    stackable: false,
+  },
+  {
+    id: 'travesseiro-brinde',
+    label: 'Travesseiro Brinde',
+    active: true,
+    target: { names: ['TRAVESSEIRO FLOCOS CONFORTO 20CM 60X40 BRANCO'] },
+    requires: {},
+    reward: { type: 'freeItem' },
+    priority: 5,
+    stackable: false,
+  },
+];
+
+export const loadPromotions = (): PromotionRule[] => {
+  try {
+    const saved = localStorage.getItem(PROMOTIONS_STORAGE_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error("Failed to load promotions", error);
+  }
+  return DEFAULT_PROMOTIONS;
+};
+
+export const savePromotions = (rules: PromotionRule[]) => {
+  localStorage.setItem(PROMOTIONS_STORAGE_KEY, JSON.stringify(rules));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Checks the shape of rules edited by hand. Throws with the offending rule on error.
+export const validatePromotionRules = (value: unknown): PromotionRule[] => {
+  if (!Array.isArray(value)) throw new Error("As promoções devem ser uma lista (array).");
+
+  const ids = new Set<string>();
+  return value.map((rule: unknown, i) => {
+    if (!isRecord(rule)) throw new Error(`Promoção #${i + 1}: formato inválido.`);
+    const ref = rule.id ? `"${rule.id}"` : `#${i + 1}`;
+    if (!rule.id || typeof rule.id !== 'string') throw new Error(`Promoção ${ref}: "id" é obrigatório.`);
+    if (ids.has(rule.id)) throw new Error(`Promoção ${ref}: "id" repetido.`);
+    ids.add(rule.id);
+    if (!rule.label || typeof rule.label !== 'string') throw new Error(`Promoção ${ref}: "label" é obrigatório.`);
+    if (!isRecord(rule.target)) throw new Error(`Promoção ${ref}: "target" é obrigatório.`);
+    if (typeof rule.priority !== 'number') throw new Error(`Promoção ${ref}: "priority" deve ser um número.`);
+
+    const reward = rule.reward;
+    const validReward = isRecord(reward) && (
+      (reward.type === 'targetPrice' && typeof reward.price === 'number') ||
+      (reward.type === 'percentOff' && typeof reward.percent === 'number') ||
+      reward.type === 'freeItem'
+    );
+    if (!validReward) throw new Error(`Promoção ${ref}: "reward" inválido.`);
+
+    // The required fields were checked above; optional ones are kept as typed in the JSON
+    return {
+      ...rule,
+      active: rule.active !== false,
+      stackable: rule.stackable === true,
+    } as PromotionRule;
+  });
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const matchesCondition = (product: Product, attributes: ProductAttributes, condition: PromotionCondition) => {
+  if (condition.names && condition.names.length > 0 && !condition.names.includes(product.name)) return false;
+  if (condition.category && attributes.category !== condition.category) return false;
+  if (condition.sizes && condition.sizes.length > 0 && !condition.sizes.includes(attributes.size || '')) return false;
+  return true;
+};
+
+export const isPromotionValidOn = (rule: PromotionRule, date: string) =>
+  rule.active &&
+  (!rule.validFrom || date >= rule.validFrom) &&
+  (!rule.validUntil || date <= rule.validUntil);
+
+// Applies the promotion rules to the cart and reports which rule produced each discount.
+// `date` is the sale date (yyyy-mm-dd) used for the validity window.
+export const evaluatePromotions = (
+  products: Product[],
+  rules: PromotionRule[],
+  getAttributes: (name: string) => ProductAttributes,
+  date: string
+): AppliedPromotion[] => {
+  const attributes = products.map(p => getAttributes(p.name));
+  // Units of each line already discounted by any promotion / by a non-stackable one
+  const promotedUnits = products.map(() => 0);
+  const exclusiveUnits = products.map(() => 0);
+  const discountedAmount = products.map(() => 0);
+
+  const applied: AppliedPromotion[] = [];
+
+  rules
+    .filter(rule => isPromotionValidOn(rule, date))
+    .sort((a, b) => b.priority - a.priority)
+    .forEach(rule => {
+      const targetIndexes = products
+        .map((p, i) => (matchesCondition(p, attributes[i], rule.target) ? i : -1))
+        .filter(i => i >= 0);
+      const targetQuantity = targetIndexes.reduce((acc, i) => acc + products[i].quantity, 0);
+      if (targetQuantity === 0 || targetQuantity < (rule.target.minQuantity || 1)) return;
+
+      let budget = Infinity;
+      if (rule.requires) {
+        const requires = rule.requires;
+        const requiredQuantity = products
+          .filter((p, i) => !targetIndexes.includes(i) && matchesCondition(p, attributes[i], requires))
+          .reduce((acc, p) => acc + p.quantity, 0);
+        if (requiredQuantity === 0 || requiredQuantity < (requires.minQuantity || 1)) return;
+        if (requires.pairing === 'perUnit') budget = requiredQuantity;
+      }
+
+      const lines: AppliedPromotion['lines'] = [];
+      targetIndexes.forEach(i => {
+        const p = products[i];
+        const blocked = rule.stackable ? exclusiveUnits[i] : promotedUnits[i];
+        const quantity = Math.min(Math.max(0, p.quantity - blocked), budget);
+        if (quantity <= 0) return;
+        budget -= quantity;
+
+        // Stacked promotions apply over the price left by the previous ones
+        const unitPrice = p.price - (p.quantity > 0 ? discountedAmount[i] / p.quantity : 0);
+        let perUnit = 0;
+        if (rule.reward.type === 'targetPrice') perUnit = Math.max(0, unitPrice - rule.reward.price);
+        else if (rule.reward.type === 'percentOff') perUnit = unitPrice * (rule.reward.percent / 100);
+        else perUnit = unitPrice;
+
+        const amount = roundCents(perUnit * quantity);
+        if (amount <= 0) return;
+
+        lines.push({ index: i, quantity, amount });
+        discountedAmount[i] += amount;
+        promotedUnits[i] += quantity;
+        if (!rule.stackable) exclusiveUnits[i] += quantity;
+      });
+
+      if (lines.length > 0) {
+        applied.push({
+          ruleId: rule.id,
+          label: rule.label,
+          amount: roundCents(lines.reduce((acc, l) => acc + l.amount, 0)),
+          lines,
+        });
+      }
+    });
+
+  return applied;
+};
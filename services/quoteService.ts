@@ -0,0 +1,45 @@
+import { ArchivedSale, ReceiptData } from '../types';
+import { toISODate, todayISODate } from './dateService';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 7;
+
+export const isQuote = (receipt: ReceiptData) => receipt.documentType === 'ORÇAMENTO';
+
+export const getDocumentTitle = (receipt: ReceiptData) => isQuote(receipt) ? 'ORÇAMENTO' : 'COMPROVANTE DE COMPRA';
+
+// File name prefix for downloads and shares
+export const getDocumentFilePrefix = (receipt: ReceiptData) => isQuote(receipt) ? 'ORCAMENTO' : 'COMPROVANTE';
+
+export const getDefaultValidUntil = (from: string = '', days: number = DEFAULT_QUOTE_VALIDITY_DAYS) => {
+  const start = from ? new Date(from + 'T12:00:00') : new Date();
+  start.setDate(start.getDate() + days);
+  return toISODate(start);
+};
+
+export const isQuoteExpired = (receipt: ReceiptData, today: string = todayISODate()) =>
+  isQuote(receipt) && !!receipt.validUntil && receipt.validUntil < today;
+
+// New sale from a stored quote. Prices and promotions stay as quoted; payments start empty
+// and the sale gets its own archive entry, date and code.
+export const convertQuoteToSale = (quote: ReceiptData): ReceiptData => ({
+  ...quote,
+  documentType: 'VENDA',
+  validUntil: undefined,
+  convertedAt: undefined,
+  quoteId: quote.archiveId,
+  pricesLocked: true,
+  archiveId: undefined,
+  issuedAt: undefined,
+  saleCode: '',
+  date: todayISODate(),
+  payments: [],
+  paymentMethod: '',
+  signatures: undefined,
+});
+
+// Flags the quote in the archive so it is not converted twice by accident
+export const markQuoteConverted = (sales: ArchivedSale[], quoteId: string) =>
+  sales.map(s => s.id === quoteId
+    ? { ...s, updatedAt: new Date().toISOString(), receipt: { ...s.receipt, convertedAt: new Date().toISOString() } }
+    : s
+  );
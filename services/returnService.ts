@@ -0,0 +1,93 @@
+import { ArchivedSale, Product, RefundMethod, ReturnLine, ReturnRecord } from '../types';
+import { calculateTotals, toCents } from './pricingService';
+
+const RETURNS_STORAGE_KEY = 'belconfort_returns';
+
+export const RETURN_REASONS = [
+  'DEFEITO DE FABRICAÇÃO',
+  'AVARIA NA ENTREGA',
+  'PRODUTO DIFERENTE DO PEDIDO',
+  'TAMANHO / MEDIDA INCORRETA',
+  'DESISTÊNCIA DO CLIENTE',
+  'OUTRO',
+];
+
+// Store credit first: it keeps the money in the store
+export const REFUND_METHODS: RefundMethod[] = ['VALE-TROCA', 'DINHEIRO', 'PIX', 'CRÉDITO', 'DÉBITO'];
+
+export const loadReturns = (): ReturnRecord[] => {
+  try {
+    const saved = localStorage.getItem(RETURNS_STORAGE_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error("Failed to load returns", error);
+  }
+  return [];
+};
+
+export const saveReturns = (returns: ReturnRecord[]) => {
+  localStorage.setItem(RETURNS_STORAGE_KEY, JSON.stringify(returns));
+};
+
+export const getReturnsForSale = (returns: ReturnRecord[], saleId: string) =>
+  returns.filter(r => r.saleId === saleId).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export interface ReturnableLine {
+  index: number;
+  product: Product;
+  unitValue: number;
+  available: number; // Units still eligible (sold minus already returned)
+}
+
+// Lines of the sale that can still come back, valued at what the customer paid per unit
+export const getReturnableLines = (sale: ArchivedSale, returns: ReturnRecord[]): ReturnableLine[] => {
+  const previous = getReturnsForSale(returns, sale.id);
+  return calculateTotals(sale.receipt).lines
+    .map(line => {
+      const alreadyReturned = previous.reduce((acc, r) =>
+        acc + r.returnedLines.filter(l => l.index === line.index).reduce((sum, l) => sum + l.quantity, 0), 0);
+      return {
+        index: line.index,
+        product: line.product,
+        unitValue: line.product.quantity > 0 ? Math.round(toCents(line.net) / line.product.quantity) / 100 : 0,
+        available: Math.max(0, line.product.quantity - alreadyReturned),
+      };
+    })
+    .filter(line => line.available > 0);
+};
+
+export const getReturnLinesValue = (lines: ReturnLine[]) =>
+  lines.reduce((acc, l) => acc + toCents(l.unitValue) * l.quantity, 0) / 100;
+
+export const getProductsValue = (products: Product[]) =>
+  products.reduce((acc, p) => acc + toCents(p.price) * p.quantity, 0) / 100;
+
+export const getReturnType = (record: Pick<ReturnRecord, 'exchangeItems'>) =>
+  record.exchangeItems.length > 0 ? 'TROCA' : 'DEVOLUÇÃO';
+
+const generateReturnId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createReturnRecord = (
+  sale: ArchivedSale,
+  returns: ReturnRecord[],
+  input: Pick<ReturnRecord, 'salesperson' | 'reason' | 'details' | 'returnedLines' | 'exchangeItems' | 'settlementMethod'>
+): ReturnRecord => {
+  const returnedValue = getReturnLinesValue(input.returnedLines);
+  const exchangeValue = getProductsValue(input.exchangeItems);
+  const sequence = getReturnsForSale(returns, sale.id).length + 1;
+
+  return {
+    ...input,
+    id: generateReturnId(),
+    code: `${sale.receipt.saleCode || 'S/C'}-T${sequence}`.toUpperCase(),
+    saleId: sale.id,
+    saleCode: sale.receipt.saleCode,
+    createdAt: new Date().toISOString(),
+    returnedValue,
+    exchangeValue,
+    difference: (toCents(exchangeValue) - toCents(returnedValue)) / 100,
+  };
+};
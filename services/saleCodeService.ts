@@ -0,0 +1,71 @@
+import { ArchivedSale, SaleCodePattern, StoreBranch } from '../types';
+
+const SALE_COUNTERS_STORAGE_KEY = 'belconfort_sale_counters';
+
+export const DEFAULT_SALE_CODE_PATTERN: SaleCodePattern = { prefix: 'BC', includeYear: true, digits: 5 };
+export const MIN_SALE_CODE_DIGITS = 3;
+export const MAX_SALE_CODE_DIGITS = 8;
+
+// Last number handed out per branch and series ("BC-2026-"), so each year starts again at 1
+export type SaleCounters = Record<string, Record<string, number>>;
+
+export const loadSaleCounters = (): SaleCounters => {
+  try {
+    const saved = localStorage.getItem(SALE_COUNTERS_STORAGE_KEY);
+    if (saved) {
+      const counters = JSON.parse(saved);
+      // Counters saved before numbering was per branch were flat ({ "BC-2026-": 42 }); the archive still knows those numbers
+      return Object.fromEntries(Object.entries(counters).filter(([, series]) => series && typeof series === 'object')) as SaleCounters;
+    }
+  } catch (error) {
+    console.error("Failed to load sale counters", error);
+  }
+  return {};
+};
+
+export const saveSaleCounters = (counters: SaleCounters) => {
+  localStorage.setItem(SALE_COUNTERS_STORAGE_KEY, JSON.stringify(counters));
+};
+
+export const normalizeSaleCode = (code: string) => (code || '').trim().toUpperCase();
+
+// Everything before the counter: "BC-2026-", "BC-", or "" for a bare counter
+export const getSaleCodeSeries = (pattern: SaleCodePattern, year: number) =>
+  [normalizeSaleCode(pattern.prefix), pattern.includeYear ? String(year) : '']
+    .filter(Boolean)
+    .map(part => `${part}-`)
+    .join('');
+
+export const formatSaleCode = (pattern: SaleCodePattern, year: number, counter: number) =>
+  `${getSaleCodeSeries(pattern, year)}${String(counter).padStart(pattern.digits, '0')}`;
+
+// Highest counter already used in the series, read from the archive so manual codes
+// and sales from before the counter existed are never handed out again
+const getHighestArchivedCounter = (sales: ArchivedSale[], series: string) => {
+  const matcher = new RegExp(`^${series.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\d+)$`);
+  return sales.reduce((highest, sale) => {
+    const match = normalizeSaleCode(sale.receipt.saleCode).match(matcher);
+    return match ? Math.max(highest, parseInt(match[1], 10)) : highest;
+  }, 0);
+};
+
+export const getBranchSaleCodePattern = (branch: StoreBranch) => branch.saleCodePattern ?? DEFAULT_SALE_CODE_PATTERN;
+
+// Each branch counts its own series. The archive is read across all branches, so two branches
+// left with the same pattern share one sequence instead of handing out the same code twice.
+export const getNextSaleCode = (branchId: string, pattern: SaleCodePattern, counters: SaleCounters, sales: ArchivedSale[], date: Date = new Date()) => {
+  const series = getSaleCodeSeries(pattern, date.getFullYear());
+  const branchCounters = counters[branchId] || {};
+  const counter = Math.max(branchCounters[series] || 0, getHighestArchivedCounter(sales, series)) + 1;
+  return {
+    code: formatSaleCode(pattern, date.getFullYear(), counter),
+    counters: { ...counters, [branchId]: { ...branchCounters, [series]: counter } },
+  };
+};
+
+// Another archived sale (not the one being reissued) already using the code
+export const findSaleCodeCollision = (sales: ArchivedSale[], code: string, archiveId?: string) => {
+  const normalized = normalizeSaleCode(code);
+  if (!normalized) return undefined;
+  return sales.find(s => s.id !== archiveId && normalizeSaleCode(s.receipt.saleCode) === normalized);
+};
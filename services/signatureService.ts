@@ -0,0 +1,26 @@
+import { ReceiptData, ReceiptSignatures, Signature } from '../types';
+import { isQuote } from './quoteService';
+
+export type SignatureRole = keyof ReceiptSignatures;
+
+export const SIGNATURE_LABELS: Record<SignatureRole, string> = {
+  customer: 'Assinatura do Cliente',
+  salesperson: 'Assinatura do Vendedor',
+};
+
+export const UNSIGNED_LABEL = 'NÃO ASSINADO PELO CLIENTE';
+
+export const createSignature = (image: string, signer: string): Signature => ({
+  image,
+  signer: signer.trim().toUpperCase(),
+  signedAt: new Date().toISOString(),
+});
+
+export const formatSignedAt = (signature: Signature) => {
+  const date = new Date(signature.signedAt);
+  return `Assinado em ${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// Quotes are never signed, so they are not reported as unsigned either
+export const isUnsigned = (receipt: ReceiptData) =>
+  !isQuote(receipt) && !receipt.signatures?.customer;
@@ -0,0 +1,98 @@
+import { PixKeyType, PolicySection, StoreBranch, StoreProfile } from '../types';
+import { DEFAULT_OBSERVATION_TEMPLATES, DEFAULT_POLICY_SECTIONS } from './policyService';
+import { generateVerificationKey } from './verificationService';
+
+const STORE_PROFILE_STORAGE_KEY = 'belconfort_store_profile';
+
+// The original store, used until the profile is edited in the settings
+export const DEFAULT_STORE_PROFILE: StoreProfile = {
+  name: 'BelConfort',
+  tagline: 'CAMAS E MÓVEIS',
+  instagramUrl: 'https://www.instagram.com/belconfortcamasemoveis/',
+  branches: [{
+    id: 'matriz',
+    name: 'MATRIZ',
+    cnpj: '60.190.028/0001-60',
+    street: 'RUA B, 103C',
+    neighborhood: 'CASTANHEIRA',
+    city: 'BELEM',
+    state: 'PA',
+    email: 'belconfortcamasemoveis@gmail.com',
+    phone: '(91) 99381-2592',
+  }],
+  defaultBranchId: 'matriz',
+  policySections: DEFAULT_POLICY_SECTIONS,
+  observationTemplates: DEFAULT_OBSERVATION_TEMPLATES,
+};
+
+export const loadStoreProfile = (): StoreProfile => {
+  try {
+    const saved = localStorage.getItem(STORE_PROFILE_STORAGE_KEY);
+    if (saved) {
+      const profile: StoreProfile = JSON.parse(saved);
+      // Profiles saved before a setting existed get its default
+      if (profile.branches?.length) return { ...DEFAULT_STORE_PROFILE, ...profile };
+    }
+  } catch (error) {
+    console.error("Failed to load store profile", error);
+  }
+  return DEFAULT_STORE_PROFILE;
+};
+
+// Each installation signs its receipts with its own key, created the first time the app opens
+export const withVerificationKey = (profile: StoreProfile): StoreProfile =>
+  profile.verificationKey ? profile : { ...profile, verificationKey: generateVerificationKey() };
+
+export const saveStoreProfile = (profile: StoreProfile) => {
+  localStorage.setItem(STORE_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+};
+
+const generateBranchId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBranch = (): StoreBranch => ({
+  id: generateBranchId(),
+  name: '',
+  cnpj: '',
+  street: '',
+  neighborhood: '',
+  city: '',
+  state: '',
+  email: '',
+  phone: '',
+});
+
+// Receipts without a branch (or with a removed one) fall back to the default branch
+export const getBranch = (profile: StoreProfile, branchId?: string): StoreBranch =>
+  profile.branches.find(b => b.id === branchId) ??
+  profile.branches.find(b => b.id === profile.defaultBranchId) ??
+  profile.branches[0];
+
+// "RUA B, 103C, CASTANHEIRA - BELEM/PA"
+export const formatBranchAddress = (branch: StoreBranch) => {
+  const place = [branch.city, branch.state].filter(Boolean).join('/');
+  return [[branch.street, branch.neighborhood].filter(Boolean).join(', '), place].filter(Boolean).join(' - ');
+};
+
+// Everything a printed document needs to identify who issued it
+export interface StoreIdentity {
+  name: string;
+  tagline: string;
+  instagramUrl: string;
+  branch: StoreBranch;
+  policySections: PolicySection[];
+  verificationKey?: string;
+  pixKey?: string;
+  pixKeyType?: PixKeyType;
+}
+
+export const getStoreIdentity = (branchId?: string, profile: StoreProfile = loadStoreProfile()): StoreIdentity => ({
+  name: profile.name,
+  tagline: profile.tagline,
+  instagramUrl: profile.instagramUrl,
+  branch: getBranch(profile, branchId),
+  policySections: profile.policySections ?? DEFAULT_POLICY_SECTIONS,
+  verificationKey: profile.verificationKey,
+  pixKey: profile.pixKey,
+  pixKeyType: profile.pixKeyType,
+});
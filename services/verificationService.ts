@@ -0,0 +1,102 @@
+import { ArchivedSale, ReceiptData } from '../types';
+import { calculateTotals, toCents } from './pricingService';
+
+// Payload of the verification QR: BCV1|<código>|<total em centavos>|<aaaa-mm-dd>|<hmac>
+const PAYLOAD_PREFIX = 'BCV1';
+const MAC_BYTES = 16; // Truncated HMAC-SHA256, keeps the QR small enough to print at 16mm
+
+export type VerificationStatus = 'AUTÊNTICO' | 'ALTERADO' | 'NÃO ENCONTRADO' | 'INVÁLIDO';
+
+export interface VerificationPayload {
+  saleCode: string;
+  totalCents: number;
+  date: string;
+  mac: string;
+}
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  message: string;
+  payload?: VerificationPayload;
+  sale?: ArchivedSale;
+}
+
+// 32 random bytes as hex; generated once per installation and kept in the store profile
+export const generateVerificationKey = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const getIssueDate = (receipt: ReceiptData) => (receipt.issuedAt || '').slice(0, 10);
+
+// Who was charged and what. Payments and delivery status are left out on purpose:
+// receiving the balance later must not make the original receipt fail verification.
+export const getCanonicalReceipt = (receipt: ReceiptData) => JSON.stringify([
+  PAYLOAD_PREFIX,
+  receipt.documentType || 'VENDA',
+  (receipt.saleCode || '').toUpperCase(),
+  receipt.issuedAt || '',
+  receipt.name || '',
+  receipt.cpf || '',
+  [receipt.street, receipt.number, receipt.complement, receipt.neighborhood, receipt.city, receipt.cep].map(part => part || ''),
+  receipt.products.map(p => [p.code || '', p.name, p.quantity, toCents(p.price)]),
+  receipt.discountType,
+  receipt.discountValue || 0,
+  (receipt.appliedPromotions || []).map(promo => [promo.label, toCents(promo.amount)]),
+  receipt.delivery ? toCents(receipt.delivery.fee || 0) : 0,
+  toCents(calculateTotals(receipt).total),
+]);
+
+const computeMac = async (receipt: ReceiptData, key: string) => {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(getCanonicalReceipt(receipt)));
+  return Array.from(new Uint8Array(signature).slice(0, MAC_BYTES), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildVerificationPayload = async (receipt: ReceiptData, key: string) => {
+  const mac = await computeMac(receipt, key);
+  return [
+    PAYLOAD_PREFIX,
+    (receipt.saleCode || '').toUpperCase(),
+    toCents(calculateTotals(receipt).total),
+    getIssueDate(receipt),
+    mac,
+  ].join('|');
+};
+
+export const parseVerificationPayload = (text: string): VerificationPayload | null => {
+  const parts = text.trim().split('|');
+  if (parts.length !== 5 || parts[0] !== PAYLOAD_PREFIX) return null;
+  const [, saleCode, total, date, mac] = parts;
+  const totalCents = parseInt(total, 10);
+  if (!saleCode || isNaN(totalCents) || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^[0-9a-f]+$/i.test(mac)) return null;
+  return { saleCode, totalCents, date, mac: mac.toLowerCase() };
+};
+
+// Checks the scanned payload against the archived sale with the same code
+export const verifyReceiptPayload = async (text: string, sales: ArchivedSale[], key: string): Promise<VerificationResult> => {
+  const payload = parseVerificationPayload(text);
+  if (!payload) return { status: 'INVÁLIDO', message: 'O conteúdo lido não é um QR de verificação deste sistema.' };
+
+  const matches = sales.filter(s => (s.receipt.saleCode || '').toUpperCase() === payload.saleCode.toUpperCase());
+  if (matches.length === 0) {
+    return { status: 'NÃO ENCONTRADO', message: `Nenhuma venda arquivada com o código ${payload.saleCode}.`, payload };
+  }
+
+  for (const sale of matches) {
+    if (await computeMac(sale.receipt, key) === payload.mac) {
+      const total = toCents(calculateTotals(sale.receipt).total);
+      if (total === payload.totalCents && getIssueDate(sale.receipt) === payload.date) {
+        return { status: 'AUTÊNTICO', message: 'Comprovante confere com a venda arquivada.', payload, sale };
+      }
+    }
+  }
+
+  return {
+    status: 'ALTERADO',
+    message: 'O código existe, mas o conteúdo não confere com a venda arquivada. Confira itens e valores abaixo.',
+    payload,
+    sale: matches[0],
+  };
+};
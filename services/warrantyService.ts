@@ -0,0 +1,161 @@
+import { ArchivedSale, CatalogItem, Product, ReceiptData, ReturnRecord, WarrantyTerm, WarrantyUnit } from '../types';
+import { getArchivedSaleDate } from './archiveService';
+import { getProductAttributes } from './catalogService';
+import { toISODate, todayISODate } from './dateService';
+import { isDeliveryServiceLine } from './deliveryService';
+import { isQuote } from './quoteService';
+import { getReturnsForSale } from './returnService';
+
+const CATEGORY_WARRANTIES_STORAGE_KEY = 'belconfort_category_warranties';
+
+// Store warranty given on every product, on top of the manufacturer's
+export const STORE_WARRANTY_DAYS = 90;
+
+export const WARRANTY_UNITS: WarrantyUnit[] = ['DIAS', 'MESES', 'ANOS'];
+
+export const WARRANTY_TERMS = [
+  "A garantia da loja cobre defeitos de fabricação constatados nos primeiros 90 dias após a compra.",
+  "A garantia de fábrica segue o prazo informado pelo fabricante, contado a partir da data da compra, e é atendida conforme as condições do certificado do fabricante.",
+  "Não estão cobertos danos causados por mau uso, umidade, manchas, queimaduras, rasgos, uso de base ou estrado inadequado, transporte ou montagem por terceiros.",
+  "O atendimento em garantia exige a apresentação deste certificado ou do comprovante de venda, com a etiqueta do produto preservada.",
+];
+
+export interface WarrantyDates {
+  purchaseDate: string; // yyyy-mm-dd
+  storeExpiry: string;
+  factoryExpiry: string | null; // null when the product has no factory warranty informed
+}
+
+export type WarrantyStatus = 'LOJA E FÁBRICA' | 'FÁBRICA' | 'LOJA' | 'EXPIRADA' | 'DEVOLVIDO';
+
+const onlyDigits = (value: string) => (value || '').replace(/\D/g, '');
+
+export const addToDate = (isoDate: string, amount: number, unit: Product['warrantyUnit'] = 'DIAS') => {
+  const date = new Date(isoDate + 'T12:00:00');
+  if (unit === 'ANOS') date.setFullYear(date.getFullYear() + amount);
+  else if (unit === 'MESES') date.setMonth(date.getMonth() + amount);
+  else date.setDate(date.getDate() + amount);
+  return toISODate(date);
+};
+
+// --- Default factory warranty (catalog item first, then its category) ---
+
+export type CategoryWarranties = Record<string, WarrantyTerm>;
+
+export const loadCategoryWarranties = (): CategoryWarranties => {
+  try {
+    const saved = localStorage.getItem(CATEGORY_WARRANTIES_STORAGE_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error("Failed to load category warranties", error);
+  }
+  return {};
+};
+
+export const saveCategoryWarranties = (warranties: CategoryWarranties) => {
+  localStorage.setItem(CATEGORY_WARRANTIES_STORAGE_KEY, JSON.stringify(warranties));
+};
+
+export const formatWarrantyTerm = (term: WarrantyTerm) => `${term.time} ${term.unit}`;
+
+export const getDefaultWarranty = (
+  catalog: CatalogItem[],
+  categoryWarranties: CategoryWarranties,
+  name: string
+): WarrantyTerm | undefined => {
+  const item = catalog.find(p => p.name === name);
+  if (item?.warranty?.time) return item.warranty;
+  const category = getProductAttributes(catalog, name).category;
+  const categoryDefault = category ? categoryWarranties[category] : undefined;
+  return categoryDefault?.time ? categoryDefault : undefined;
+};
+
+// New cart lines start with the default (blank when there is none, as before)
+export const withDefaultWarranty = (product: Product, term?: WarrantyTerm): Product => ({
+  ...product,
+  warrantyTime: term?.time || "",
+  warrantyUnit: term?.unit || "MESES",
+});
+
+// Only lines whose product has a default can differ from it
+export const differsFromDefaultWarranty = (product: Product, term?: WarrantyTerm) =>
+  !!term && ((product.warrantyTime || '') !== term.time || (product.warrantyUnit || 'MESES') !== term.unit);
+
+export const formatWarrantyDate = (isoDate: string) =>
+  new Date(isoDate + 'T12:00:00').toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+// e.g. "12 MESES"; empty when the line has no factory warranty
+export const getFactoryWarrantyLabel = (product: Product) =>
+  product.warrantyTime ? `${product.warrantyTime} ${product.warrantyUnit || 'MESES'}` : '';
+
+export const getPurchaseDate = (receipt: ReceiptData) =>
+  receipt.date || (receipt.issuedAt ? receipt.issuedAt.slice(0, 10) : todayISODate());
+
+export const getWarrantyDates = (product: Product, purchaseDate: string): WarrantyDates => {
+  const factoryAmount = parseInt(product.warrantyTime || '', 10);
+  return {
+    purchaseDate,
+    storeExpiry: addToDate(purchaseDate, STORE_WARRANTY_DAYS, 'DIAS'),
+    factoryExpiry: factoryAmount > 0 ? addToDate(purchaseDate, factoryAmount, product.warrantyUnit || 'MESES') : null,
+  };
+};
+
+// Expiry dates are inclusive: the last day is still covered
+export const getWarrantyStatus = (dates: WarrantyDates, today: string = todayISODate()): WarrantyStatus => {
+  const store = today <= dates.storeExpiry;
+  const factory = !!dates.factoryExpiry && today <= dates.factoryExpiry;
+  if (store && factory) return 'LOJA E FÁBRICA';
+  if (factory) return 'FÁBRICA';
+  if (store) return 'LOJA';
+  return 'EXPIRADA';
+};
+
+// Products of a receipt that get a certificate (the delivery service line does not)
+export const getWarrantyProducts = (receipt: ReceiptData) =>
+  receipt.products
+    .map((product, index) => ({ product, index }))
+    .filter(({ product }) => !isDeliveryServiceLine(product));
+
+export interface WarrantyLookupResult {
+  sale: ArchivedSale;
+  product: Product;
+  index: number; // Line of the sale
+  dates: WarrantyDates;
+  status: WarrantyStatus;
+}
+
+// Finds sold products by product code, sale code or customer CPF/CNPJ
+export const lookupWarranties = (sales: ArchivedSale[], returns: ReturnRecord[], query: string): WarrantyLookupResult[] => {
+  const code = query.trim().toUpperCase();
+  const digits = onlyDigits(query);
+  if (!code) return [];
+
+  return sales
+    .filter(sale => !isQuote(sale.receipt))
+    .flatMap(sale => {
+      const r = sale.receipt;
+      const matchesSale =
+        (r.saleCode || '').toUpperCase() === code ||
+        (digits.length >= 11 && onlyDigits(r.cpf || '') === digits);
+      const saleReturns = getReturnsForSale(returns, sale.id);
+      const purchaseDate = getArchivedSaleDate(sale);
+
+      return getWarrantyProducts(r)
+        .filter(({ product }) => matchesSale || (product.code || '').toUpperCase() === code)
+        .map(({ product, index }): WarrantyLookupResult => {
+          const returned = saleReturns.reduce((acc, record) =>
+            acc + record.returnedLines.filter(l => l.index === index).reduce((sum, l) => sum + l.quantity, 0), 0);
+          const dates = getWarrantyDates(product, purchaseDate);
+          return {
+            sale,
+            product,
+            index,
+            dates,
+            status: returned >= product.quantity ? 'DEVOLVIDO' : getWarrantyStatus(dates),
+          };
+        });
+    })
+    .sort((a, b) => b.dates.purchaseDate.localeCompare(a.dates.purchaseDate));
+};
@@ -1,19 +1,46 @@
 
+export type WarrantyUnit = 'DIAS' | 'MESES' | 'ANOS';
+
+export interface WarrantyTerm {
+  time: string;
+  unit: WarrantyUnit;
+}
+
 export interface Product {
   code?: string;
   name: string;
   price: number;
   quantity: number;
   warrantyTime?: string;
-  warrantyUnit?: 'DIAS' | 'MESES' | 'ANOS';
+  warrantyUnit?: WarrantyUnit;
 }
 
-export interface CatalogItem {
+export interface ProductAttributes {
+  category?: string; // e.g. COLCHÃO, BASE, CABECEIRA
+  model?: string; // e.g. BOX BILÚ
+  height?: string; // e.g. 40CM
+  size?: string; // SOLTEIRO, SOLTEIRÃO, CASAL, QUEEN, KING, SUPER KING
+  density?: string; // e.g. D33
+  color?: string; // e.g. PRETO, CINZA | BRANCO
+}
+
+export interface CatalogItem extends ProductAttributes {
+  sku?: string; // Permanent store code, printed on receipts (assigned once, never regenerated)
+  ean?: string; // Manufacturer / EAN reference
   name: string;
   price: number;
+  active?: boolean; // Deactivated items stay in the catalog but are hidden from sales
+  warranty?: WarrantyTerm; // Default factory warranty; overrides the default of its category
 }
 
+export type ReceiptDocumentType = 'VENDA' | 'ORÇAMENTO';
+
 export interface ReceiptData {
+  documentType?: ReceiptDocumentType; // Absent on receipts issued before quotes existed (VENDA)
+  validUntil?: string; // ORÇAMENTO only, yyyy-mm-dd
+  quoteId?: string; // VENDA converted from a quote: archive id of that quote
+  convertedAt?: string; // ORÇAMENTO already turned into a sale (ISO timestamp)
+  pricesLocked?: boolean; // Keeps the quoted promotions instead of re-evaluating them
   saleCode: string;
   salesperson: string;
   date: string;
@@ -24,16 +51,167 @@ export interface ReceiptData {
   number: string;
   neighborhood: string;
   city: string;
+  cep: string;
   complement: string;
   contact1: string;
   contact2: string;
   observation: string;
-  paymentMethod: string;
+  paymentMethod: string; // Single method of older receipts; summary of `payments` on new ones
+  payments?: Payment[];
+  delivery?: DeliveryInfo; // Absent when the customer takes the products from the store
   products: Product[];
   discountType: 'fixed' | 'percentage';
   discountValue: number;
   bundleDiscount?: number;
   bundleLabel?: string; // Novo campo para o rótulo do desconto
+  appliedPromotions?: AppliedPromotion[]; // One entry per promotion rule, printed separately
+  archiveId?: string; // Set once the receipt is stored in the sales archive
+  branchId?: string; // Store branch that issued the document (absent on receipts from before branches)
+  signatures?: ReceiptSignatures;
+  issuedAt?: string; // ISO timestamp of the first issue, reused when reprinting
+}
+
+export interface Signature {
+  image: string; // JPEG data URL downscaled from the signature pad (older sales may hold PNG)
+  signer: string; // Name at signing time (customer or salesperson)
+  signedAt: string; // ISO timestamp
+}
+
+export interface ReceiptSignatures {
+  customer?: Signature; // Missing means the receipt is printed as unsigned
+  salesperson?: Signature;
+}
+
+export type PaymentMethod = 'DINHEIRO' | 'PIX' | 'CRÉDITO' | 'DÉBITO' | 'OUTROS';
+
+export interface Payment {
+  method: PaymentMethod;
+  amount: number;
+  installments?: number; // CRÉDITO only (1 = à vista)
+  cardBrand?: string; // CRÉDITO / DÉBITO
+  cashTendered?: number; // DINHEIRO only; the change is cashTendered - amount
+  paidAt?: string; // ISO timestamp of payments received after the sale (e.g. balance paid on delivery)
+}
+
+export type RefundMethod = PaymentMethod | 'VALE-TROCA';
+
+export interface ReturnLine {
+  index: number; // Line of the original sale
+  code?: string;
+  name: string;
+  quantity: number;
+  unitValue: number; // What the customer actually paid per unit (after promotions and discounts)
+}
+
+export interface ReturnRecord {
+  id: string;
+  code: string; // e.g. V1234-T1 (original sale code + sequence)
+  saleId: string; // Archive id of the original sale
+  saleCode: string;
+  createdAt: string; // ISO timestamp
+  salesperson: string;
+  reason: string;
+  details: string;
+  returnedLines: ReturnLine[];
+  exchangeItems: Product[]; // New items given in exchange, at current catalog prices
+  returnedValue: number;
+  exchangeValue: number;
+  difference: number; // exchangeValue - returnedValue: > 0 customer pays, < 0 store refunds
+  settlementMethod?: RefundMethod; // How the difference was paid or refunded
+}
+
+export type DeliveryStatus = 'AGENDADA' | 'EM ROTA' | 'ENTREGUE' | 'CANCELADA';
+
+export interface DeliveryInfo {
+  date: string; // yyyy-mm-dd
+  timeWindow: string; // e.g. MANHÃ (08H - 12H)
+  fee: number; // Added to the receipt total
+  status: DeliveryStatus;
+  referencePoint: string;
+}
+
+export interface PromotionCondition {
+  category?: string;
+  sizes?: string[];
+  names?: string[];
+  minQuantity?: number; // Minimum units of matching lines in the cart (default 1)
+}
+
+export type PromotionReward =
+  | { type: 'targetPrice'; price: number } // Each unit is sold for this price
+  | { type: 'percentOff'; percent: number }
+  | { type: 'freeItem' }; // Each unit is given away
+
+export interface PromotionRule {
+  id: string;
+  label: string; // Printed on the receipt
+  active: boolean;
+  target: PromotionCondition; // Lines that receive the reward
+  requires?: PromotionCondition & {
+    pairing?: 'perUnit'; // Each required unit unlocks one target unit (e.g. one base per mattress)
+  }; // Other lines that must be in the cart; an empty condition means "any other product"
+  reward: PromotionReward;
+  validFrom?: string; // yyyy-mm-dd (inclusive)
+  validUntil?: string; // yyyy-mm-dd (inclusive)
+  priority: number; // Higher runs first
+  stackable: boolean; // Whether it can combine with other promotions on the same unit
+}
+
+export interface AppliedPromotion {
+  ruleId: string;
+  label: string;
+  amount: number;
+  lines: { index: number; quantity: number; amount: number }[];
+}
+
+export interface StoreBranch {
+  id: string;
+  name: string; // e.g. MATRIZ, CASTANHEIRA
+  cnpj: string;
+  street: string; // Street and number
+  neighborhood: string;
+  city: string;
+  state: string;
+  email: string;
+  phone: string;
+  saleCodePattern?: SaleCodePattern; // Numbering of the sales issued by this branch
+}
+
+export interface PolicySection {
+  id: string;
+  title: string; // e.g. DIREITO DE ARREPENDIMENTO
+  note?: string; // Lighter text after the title, e.g. (Art. 49 do CDC):
+  body: string; // Light markup: **negrito** and lines starting with "- " become bullets
+}
+
+// How the Chave PIX is written into the BR Code
+export type PixKeyType = 'CPF/CNPJ' | 'TELEFONE' | 'E-MAIL' | 'ALEATÓRIA';
+
+// Sale codes handed out on issue, e.g. BC-2026-00042
+export interface SaleCodePattern {
+  prefix: string;
+  includeYear: boolean;
+  digits: number; // Zero padding of the counter
+}
+
+export interface StoreProfile {
+  name: string; // Brand printed in the header, e.g. BelConfort
+  tagline: string;
+  instagramUrl: string; // QR code in the header (blank hides it)
+  branches: StoreBranch[];
+  defaultBranchId: string;
+  policySections?: PolicySection[]; // Return policy printed on receipts (absent on profiles saved before it was editable)
+  observationTemplates?: string[];
+  verificationKey?: string; // HMAC key of the receipt verification QR (hex)
+  pixKey?: string; // Chave PIX printed as a BR Code on receipts and quotes
+  pixKeyType?: PixKeyType; // Absent on profiles saved before it was asked: guessed from the key
+}
+
+export interface ArchivedSale {
+  id: string;
+  issuedAt: string;
+  updatedAt: string;
+  receipt: ReceiptData;
 }
 
 export const INITIAL_DATA: ReceiptData = {
@@ -47,11 +225,13 @@ export const INITIAL_DATA: ReceiptData = {
   number: '',
   neighborhood: '',
   city: '',
+  cep: '',
   complement: '',
   contact1: '',
   contact2: '',
   observation: '',
   paymentMethod: '',
+  payments: [],
   products: [],
   discountType: 'fixed',
   discountValue: 0,
@@ -59,7 +239,7 @@ export const INITIAL_DATA: ReceiptData = {
   bundleLabel: '',
 };
 
-// Catalog with applied price rules (UPDATED)
+// Default catalog, used to seed the managed catalog on first run (see catalogService)
 export const PRODUCT_CATALOG: CatalogItem[] = [
   { name: "ACESSÓRIO ENCOSTO DINO 62CM 52X78 BEGE", price: 150.00 },
   { name: "ACESSÓRIO ENCOSTO DINO 62CM 52X78 CINZA", price: 150.00 },
@@ -260,5 +440,3 @@ export const PRODUCT_CATALOG: CatalogItem[] = [
   { name: "UNIBOX ROMA 53CM SOLTEIRÃO BEGE", price: 1100.00 },
   { name: "UNIBOX ROMA 53CM SOLTEIRO AZUL", price: 1050.00 },
 ].sort((a, b) => a.name.localeCompare(b.name));
-
-export const PRODUCTS_LIST = PRODUCT_CATALOG.map(p => p.name);
\ No newline at end of file